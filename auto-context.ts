@@ -0,0 +1,43 @@
+import { estimateTokens } from "./context-guard";
+import { ContextSource, RetrievalResult } from "./types";
+
+// Questions shorter than this are not worth a search
+export const MIN_AUTO_CONTEXT_QUERY = 12;
+
+export function passageKey(passage: ContextSource): string {
+    return `${passage.path}#${passage.line}`;
+}
+
+export function describePassage(passage: ContextSource): string {
+    const name = passage.path.replace(/\.md$/, '').split('/').pop();
+    return passage.heading ? `${name} › ${passage.heading}` : `${name}`;
+}
+
+/**
+ * Picks the best passages in ranking order until `maxPassages` or the token budget is
+ * reached. Passages of notes that are already in context and dismissed passages are skipped.
+ */
+export function selectPassages(
+    results: RetrievalResult[],
+    options: { maxPassages: number; tokenBudget: number; excludePaths: Set<string>; excludeKeys: Set<string> }
+): RetrievalResult[] {
+    const selected: RetrievalResult[] = [];
+    let tokens = 0;
+    for (const result of results) {
+        if (selected.length >= options.maxPassages) break;
+        if (options.excludePaths.has(result.path) || options.excludeKeys.has(passageKey(result))) continue;
+        const cost = estimateTokens(result.text.length);
+        if (tokens + cost > options.tokenBudget) continue;
+        selected.push(result);
+        tokens += cost;
+    }
+    return selected;
+}
+
+/**
+ * The labeled context block of a passage, in the format used for notes in context.
+ */
+export function formatPassage(passage: RetrievalResult): string {
+    const label = `Passage [[${passage.path}]]${passage.heading ? ` › ${passage.heading}` : ''} (line ${passage.line + 1})`;
+    return `--- Content of ${label} ---\n${passage.text}\n--- End of Passage ---`;
+}
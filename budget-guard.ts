@@ -0,0 +1,76 @@
+import { GeminiPluginSettings, UsageEntry } from "./types";
+import { estimateCost } from "./usage-ledger";
+
+// Share of a limit at which the user is warned
+export const BUDGET_WARN_SHARE = 0.8;
+
+export interface BudgetUsage {
+    period: 'day' | 'month';
+    kind: 'tokens' | 'cost';
+    used: number;
+    limit: number;
+}
+
+export interface BudgetStatus {
+    exceeded: BudgetUsage[];
+    near: BudgetUsage[];
+}
+
+/**
+ * Local models cost nothing and do not touch the shared key, so they are neither
+ * counted nor limited.
+ */
+export function isBudgeted(entry: Pick<UsageEntry, 'provider'>): boolean {
+    return entry.provider !== 'ollama';
+}
+
+/**
+ * Compares today's and this month's recorded usage with the configured limits.
+ * `pending` adds the expected usage of a request that has not been sent yet.
+ */
+export function getBudgetStatus(
+    entries: UsageEntry[],
+    settings: GeminiPluginSettings,
+    pending?: UsageEntry,
+    now: Date = new Date()
+): BudgetStatus {
+    const dayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+    const monthStart = new Date(now.getFullYear(), now.getMonth(), 1).getTime();
+    const totals = {
+        day: { tokens: 0, cost: 0 },
+        month: { tokens: 0, cost: 0 }
+    };
+
+    for (const entry of pending ? [...entries, pending] : entries) {
+        if (entry.timestamp < monthStart || !isBudgeted(entry)) continue;
+        const tokens = entry.promptTokens + entry.candidatesTokens + entry.thoughtsTokens;
+        const cost = estimateCost(entry, settings.modelPrices) || 0;
+        totals.month.tokens += tokens;
+        totals.month.cost += cost;
+        if (entry.timestamp >= dayStart) {
+            totals.day.tokens += tokens;
+            totals.day.cost += cost;
+        }
+    }
+
+    const limits: BudgetUsage[] = [
+        { period: 'day', kind: 'tokens', used: totals.day.tokens, limit: settings.budgetDailyTokens },
+        { period: 'day', kind: 'cost', used: totals.day.cost, limit: settings.budgetDailyCost },
+        { period: 'month', kind: 'tokens', used: totals.month.tokens, limit: settings.budgetMonthlyTokens },
+        { period: 'month', kind: 'cost', used: totals.month.cost, limit: settings.budgetMonthlyCost }
+    ].filter((usage): usage is BudgetUsage => usage.limit > 0);
+
+    return {
+        exceeded: limits.filter(usage => usage.used >= usage.limit),
+        near: limits.filter(usage => usage.used < usage.limit && usage.used >= usage.limit * BUDGET_WARN_SHARE)
+    };
+}
+
+/**
+ * E.g. "daily cost: $4.80 of $5.00" or "monthly tokens: 1,200,000 of 1,000,000".
+ */
+export function describeBudgetUsage(usage: BudgetUsage): string {
+    const period = usage.period === 'day' ? 'daily' : 'monthly';
+    const format = (value: number) => usage.kind === 'cost' ? `$${value.toFixed(2)}` : Math.round(value).toLocaleString();
+    return `${period} ${usage.kind}: ${format(usage.used)} of ${format(usage.limit)}`;
+}
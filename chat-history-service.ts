@@ -1,11 +1,20 @@
-import { App, TFile, TFolder, normalizePath, Notice } from "obsidian";
-
-export interface ChatMessage {
-    role: "user" | "model";
-    content: string;
-    parts?: any[]; // For storing API parts including thoughtSignature
-    thought?: string; // For storing thinking process text
-    thoughtSignature?: string; // Explicitly store signature if extracted
+import { App, TFile, TFolder, normalizePath, Notice, parseYaml } from "obsidian";
+import { CHAT_FORMAT_VERSION, ChatMessage, FRONTMATTER_PATTERN, formatChatContent, formatMessage, parseChatContent, usesMessageMarkers } from "./chat-note-format";
+import { ContextCollection, GenerationParameters, ProviderId } from "./types";
+
+// Per-chat settings kept in the chat note's frontmatter
+export interface ChatNoteMetadata {
+    persona?: string;
+    generation?: GenerationParameters; // Per-chat overrides of the generation defaults
+    linkChoices?: Record<string, string>; // Ambiguous link name (lowercase) -> path picked for this chat
+    provider?: ProviderId;
+    model?: string;
+    thinking?: boolean; // State of the thinking toggle
+    activeNote?: boolean; // State of the "Active Note" toggle
+    contextFiles?: string[]; // Vault paths of the files attached with "Add File"
+    collections?: ContextCollection[]; // Folders, tags and searches attached with "Add Notes"
+    chatFormat?: number; // See CHAT_FORMAT_VERSION
+    activeBranch?: string; // Id of the last message of the branch shown, unless it is the newest branch; see getBranch
 }
 
 export class ChatHistoryService {
@@ -36,14 +45,68 @@ export class ChatHistoryService {
     async loadChat(file: TFile): Promise<ChatMessage[]> {
         try {
             const content = await this.app.vault.read(file);
-            return this.parseChatContent(content);
+            return parseChatContent(content);
         } catch (error) {
             console.error(`Failed to read chat history from ${file.path}:`, error);
             return [];
         }
     }
 
-    async saveChat(folderPath: string, messages: ChatMessage[], fileName?: string, firstUserMessageContent?: string): Promise<string> {
+    async loadChatMetadata(file: TFile): Promise<ChatNoteMetadata> {
+        try {
+            const content = await this.app.vault.read(file);
+            const frontmatterMatch = content.match(FRONTMATTER_PATTERN);
+            const frontmatter = frontmatterMatch ? parseYaml(frontmatterMatch[1]) : null;
+            return {
+                persona: typeof frontmatter?.persona === "string" ? frontmatter.persona : undefined,
+                generation: frontmatter?.generation && typeof frontmatter.generation === "object" ? frontmatter.generation : undefined,
+                linkChoices: frontmatter?.linkChoices && typeof frontmatter.linkChoices === "object" ? frontmatter.linkChoices : undefined,
+                provider: ["gemini", "openai", "ollama"].includes(frontmatter?.provider) ? frontmatter.provider : undefined,
+                model: typeof frontmatter?.model === "string" ? frontmatter.model : undefined,
+                thinking: typeof frontmatter?.thinking === "boolean" ? frontmatter.thinking : undefined,
+                activeNote: typeof frontmatter?.activeNote === "boolean" ? frontmatter.activeNote : undefined,
+                contextFiles: Array.isArray(frontmatter?.contextFiles)
+                    ? frontmatter.contextFiles.filter((path: unknown) => typeof path === "string")
+                    : undefined,
+                collections: Array.isArray(frontmatter?.collections)
+                    ? frontmatter.collections.filter((collection: any) => collection && typeof collection.kind === "string" && typeof collection.query === "string")
+                    : undefined,
+                chatFormat: typeof frontmatter?.chatFormat === "number" ? frontmatter.chatFormat : undefined,
+                activeBranch: typeof frontmatter?.activeBranch === "string" ? frontmatter.activeBranch : undefined
+            };
+        } catch (error) {
+            console.error(`Failed to read chat metadata from ${file.path}:`, error);
+            return {};
+        }
+    }
+
+    /**
+     * Writes per-chat settings into the frontmatter of an existing chat note.
+     * Undefined values, empty strings and empty objects remove the key.
+     */
+    async updateChatMetadata(folderPath: string, fileName: string, metadata: ChatNoteMetadata): Promise<void> {
+        const targetPath = normalizePath(`${normalizePath(folderPath)}/${fileName}`);
+        const file = this.app.vault.getAbstractFileByPath(targetPath);
+        if (!(file instanceof TFile)) {
+            return;
+        }
+        await this.applyMetadata(file, metadata);
+    }
+
+    private async applyMetadata(file: TFile, metadata: ChatNoteMetadata): Promise<void> {
+        await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+            for (const [key, value] of Object.entries(metadata)) {
+                const isEmptyObject = typeof value === "object" && value !== null && Object.keys(value).length === 0;
+                if (value === undefined || value === "" || isEmptyObject) {
+                    delete frontmatter[key];
+                } else {
+                    frontmatter[key] = value;
+                }
+            }
+        });
+    }
+
+    async saveChat(folderPath: string, messages: ChatMessage[], fileName?: string, firstUserMessageContent?: string, metadata: ChatNoteMetadata = {}): Promise<string> {
         const normalizedFolder = normalizePath(folderPath);
         
         // Ensure folder exists
@@ -51,8 +114,6 @@ export class ChatHistoryService {
             await this.app.vault.createFolder(normalizedFolder);
         }
 
-        const chatContent = this.formatChatContent(messages);
-        
         let targetFile: TFile | null = null;
         let targetPath = "";
 
@@ -83,13 +144,11 @@ export class ChatHistoryService {
             targetPath = normalizePath(`${normalizedFolder}/${baseName}.md`);
         }
 
-        const fileContent = this.generateNoteContent(chatContent);
-
         try {
             if (targetFile) {
-                await this.app.vault.modify(targetFile, fileContent);
+                await this.rewriteChat(targetFile, messages, await this.getChatFormat(targetFile), metadata);
             } else {
-                targetFile = await this.app.vault.create(targetPath, fileContent);
+                targetFile = await this.app.vault.create(targetPath, this.generateNoteContent(formatChatContent(messages, CHAT_FORMAT_VERSION), metadata));
             }
             return targetFile.name;
         } catch (error) {
@@ -99,7 +158,7 @@ export class ChatHistoryService {
         }
     }
 
-    async appendMessage(folderPath: string, fileName: string | null, message: ChatMessage, firstUserMessageContent?: string): Promise<string> {
+    async appendMessage(folderPath: string, fileName: string | null, message: ChatMessage, firstUserMessageContent?: string, metadata: ChatNoteMetadata = {}): Promise<string> {
         const normalizedFolder = normalizePath(folderPath);
         
         // Ensure folder exists
@@ -114,118 +173,114 @@ export class ChatHistoryService {
         }
 
         if (targetFile) {
-            // Append
-            const contentToAppend = "\n\n" + this.formatMessage(message);
+            // Old notes keep their layout until they are upgraded with the command
+            const contentToAppend = "\n\n" + formatMessage(message, await this.getChatFormat(targetFile));
             await this.app.vault.append(targetFile, contentToAppend);
             return targetFile.name;
         } else {
             // Create New
-            return this.saveChat(folderPath, [message], undefined, firstUserMessageContent);
+            return this.saveChat(folderPath, [message], undefined, firstUserMessageContent, metadata);
         }
     }
 
-    private sanitizeFilename(name: string): string {
-        // Remove invalid characters for filenames and replace spaces with dashes
-        return name.replace(/[\\/:*?"<>|]/g, '').replace(/\s/g, ' ').trim();
+    /**
+     * Rewrites a chat note in the current format, keeping its frontmatter.
+     * Returns false if there was nothing to upgrade.
+     */
+    async migrateChat(file: TFile): Promise<boolean> {
+        const content = await this.app.vault.read(file);
+        if (usesMessageMarkers(content)) {
+            return false;
+        }
+        const messages = parseChatContent(content);
+        if (messages.length === 0) {
+            return false;
+        }
+        await this.rewriteChat(file, messages, CHAT_FORMAT_VERSION);
+        return true;
     }
 
-    private generateNoteContent(chatContent: string): string {
-        const epoch = Date.now();
-        return `--- 
-epoch: ${epoch}
-modelKey: "gemini"
-tags:
-  - gemini-chat
----
-
-${chatContent}`;
+    /**
+     * The layout of an existing chat note. Notes without messages count as current.
+     */
+    private async getChatFormat(file: TFile): Promise<number> {
+        const content = await this.app.vault.read(file);
+        return usesMessageMarkers(content) || parseChatContent(content).length === 0 ? CHAT_FORMAT_VERSION : 1;
     }
 
-    private formatMessage(msg: ChatMessage): string {
-        const role = msg.role === 'user' ? 'user' : 'ai'; // Map model to ai for compatibility
-        const timestamp = new Date().toLocaleString(); 
-        
-        // Serialize metadata (parts, thought, signature)
-        const metadata: any = {};
-        if (msg.parts) metadata.parts = msg.parts;
-        if (msg.thought) metadata.thought = msg.thought;
-        if (msg.thoughtSignature) metadata.thoughtSignature = msg.thoughtSignature;
-
-        let textContent = `**${role}**: ${msg.content}\n[Timestamp: ${timestamp}]`;
-        
-        // Append metadata as hidden HTML comment if not empty
-        if (Object.keys(metadata).length > 0) {
-                // Base64 encode to avoid conflict with markdown syntax or comment terminators
-                const json = JSON.stringify(metadata);
-                // Simple masking to prevent accidental comment closure "-->" inside json
-                const b64 = btoa(unescape(encodeURIComponent(json)));
-                textContent += `\n<!-- gemini-metadata: ${b64} -->`;
+    /**
+     * Replaces the messages of a chat note, keeping its frontmatter, including keys the user added.
+     */
+    private async rewriteChat(file: TFile, messages: ChatMessage[], format: number, metadata: ChatNoteMetadata = {}): Promise<void> {
+        const chatContent = formatChatContent(messages, format);
+        const existing = (await this.app.vault.read(file)).match(FRONTMATTER_PATTERN);
+        if (existing) {
+            await this.app.vault.modify(file, `${existing[0].trimEnd()}\n\n${chatContent}`);
+            await this.applyMetadata(file, { ...metadata, chatFormat: format });
+        } else {
+            await this.app.vault.modify(file, this.generateNoteContent(chatContent, metadata, format));
         }
-        
-        return textContent;
-    }
-
-    private formatChatContent(messages: ChatMessage[]): string {
-        return messages.map(msg => this.formatMessage(msg)).join('\n\n');
     }
 
-    private parseChatContent(content: string): ChatMessage[] {
-        const messages: ChatMessage[] = [];
-        
-        // Strip frontmatter
-        const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---/);
-        let chatContent = content;
-        if (frontmatterMatch) {
-            chatContent = content.slice(frontmatterMatch[0].length).trim();
-        }
-
-        // Regex to match **role**: content
-        // Matches **user**: or **ai**: followed by content until the next **role**: or end of string
-        const messagePattern = /\*\*(user|ai)\*\*: ([\s\S]*?)(?=(?:\n\n\*\*(?:user|ai)\*\*: )|$)/g;
-
-        let match;
-        while ((match = messagePattern.exec(chatContent)) !== null) {
-            const role = match[1] === 'ai' ? 'model' : 'user';
-            let text = match[2].trim();
-            
-            let parts: any[] | undefined;
-            let thought: string | undefined;
-            let thoughtSignature: string | undefined;
-
-            // Extract Metadata Comment
-            const metadataRegex = /\n<!-- gemini-metadata: (.*?) -->$/;
-            const metadataMatch = text.match(metadataRegex);
-            
-            if (metadataMatch) {
-                try {
-                    const b64 = metadataMatch[1];
-                    const json = decodeURIComponent(escape(atob(b64)));
-                    const metadata = JSON.parse(json);
-                    
-                    if (metadata.parts) parts = metadata.parts;
-                    if (metadata.thought) thought = metadata.thought;
-                    if (metadata.thoughtSignature) thoughtSignature = metadata.thoughtSignature;
-
-                    // Remove metadata from display text
-                    text = text.replace(metadataRegex, '').trim();
-                } catch (e) {
-                    console.error("Failed to parse gemini metadata:", e);
+    /**
+     * Upgrades every chat note in the folder. Returns the number of notes changed.
+     */
+    async migrateChats(folderPath: string): Promise<number> {
+        let migrated = 0;
+        for (const file of await this.getChatFiles(folderPath)) {
+            try {
+                if (await this.migrateChat(file)) {
+                    migrated++;
                 }
+            } catch (error) {
+                console.error(`Failed to upgrade chat note ${file.path}:`, error);
             }
+        }
+        return migrated;
+    }
 
-            // Remove Timestamp line if present at the end (after metadata removal)
-            const timestampRegex = /\n\[Timestamp: .*?\]$/;
-            text = text.replace(timestampRegex, '').trim();
+    /**
+     * Saves a file generated during a chat (e.g. an image) into the `Attachments`
+     * subfolder of the chat folder. Returns the vault path of the new file.
+     */
+    async saveAttachment(folderPath: string, baseName: string, extension: string, data: ArrayBuffer): Promise<string> {
+        const attachmentsFolder = normalizePath(`${normalizePath(folderPath)}/Attachments`);
+        if (!this.app.vault.getAbstractFileByPath(attachmentsFolder)) {
+            await this.app.vault.createFolder(attachmentsFolder);
+        }
 
-            messages.push({ 
-                role: role as 'user' | 'model', 
-                content: text,
-                parts: parts,
-                thought: thought,
-                thoughtSignature: thoughtSignature
-            });
+        let targetPath = normalizePath(`${attachmentsFolder}/${baseName}.${extension}`);
+        let counter = 0;
+        while (this.app.vault.getAbstractFileByPath(targetPath)) {
+            counter++;
+            targetPath = normalizePath(`${attachmentsFolder}/${baseName}-${counter}.${extension}`);
         }
 
-        return messages;
+        const file = await this.app.vault.createBinary(targetPath, data);
+        return file.path;
     }
-}
\ No newline at end of file
+
+    private sanitizeFilename(name: string): string {
+        // Remove invalid characters for filenames and replace spaces with dashes
+        return name.replace(/[\\/:*?"<>|]/g, '').replace(/\s/g, ' ').trim();
+    }
+
+    private generateNoteContent(chatContent: string, metadata: ChatNoteMetadata = {}, format = CHAT_FORMAT_VERSION): string {
+        const epoch = Date.now();
+        // JSON is valid YAML, so every value can be written in flow style. Empty values are left out, as in updateChatMetadata.
+        const metadataLines = Object.entries(metadata)
+            .filter(([, value]) => value !== undefined && value !== "" && !(typeof value === "object" && value !== null && Object.keys(value).length === 0))
+            .map(([key, value]) => `${key}: ${JSON.stringify(value)}\n`)
+            .join("");
+        return `---
+epoch: ${epoch}
+modelKey: "gemini"
+chatFormat: ${format}
+${metadataLines}tags:
+  - gemini-chat
+---
+
+${chatContent}`;
+    }
+
+}
@@ -0,0 +1,171 @@
+import { GeminiChatMessage } from "./types";
+
+// Saved messages keep every field of the live message
+export type ChatMessage = GeminiChatMessage;
+
+// Layout of the chat note body, stored as `chatFormat` in the frontmatter.
+// 1: messages separated by "**user**:" / "**ai**:" labels. 2: each message between start and end markers with its id.
+export const CHAT_FORMAT_VERSION = 2;
+
+export const FRONTMATTER_PATTERN = /^---[ \t]*\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+const MESSAGE_START_PATTERN = /^<!-- gemini-message:start id=([\w-]+) role=(user|model) -->[ \t]*$/gm;
+const METADATA_PATTERN = /\n?<!-- gemini-metadata: (\S*) -->\s*$/;
+const TIMESTAMP_PATTERN = /\n?\[Timestamp: (.*?)\]\s*$/;
+
+export function createMessageId(): string {
+    return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+/**
+ * Gives a new message its id and creation time. Both are kept when the chat is rewritten.
+ */
+export function stampMessage<T extends ChatMessage>(msg: T): T {
+    msg.id ??= createMessageId();
+    msg.timestamp ??= new Date().toISOString();
+    return msg;
+}
+
+/**
+ * Writes one message in the given layout. Saving gives a new message its id and time.
+ */
+export function formatMessage(msg: ChatMessage, format: number): string {
+    stampMessage(msg);
+    const role = msg.role === 'user' ? 'user' : 'ai'; // Map model to ai for compatibility
+    const marked = format >= CHAT_FORMAT_VERSION;
+
+    // Serialize every other field (parts, thought, usage, grounding, images, ...).
+    // Without markers, the id is kept here too.
+    const metadata: any = {};
+    for (const [key, value] of Object.entries(msg)) {
+        if (!['role', 'content', 'timestamp', ...(marked ? ['id'] : [])].includes(key) && value !== undefined) {
+            metadata[key] = value;
+        }
+    }
+
+    const lines = [
+        `**${role}**: ${msg.content}`,
+        `[Timestamp: ${msg.timestamp}]`
+    ];
+    if (marked) {
+        lines.unshift(`<!-- gemini-message:start id=${msg.id} role=${msg.role} -->`);
+    }
+
+    // Append metadata as hidden HTML comment if not empty
+    if (Object.keys(metadata).length > 0) {
+        // Base64 encode to avoid conflict with markdown syntax or comment terminators
+        const json = JSON.stringify(metadata);
+        const b64 = btoa(unescape(encodeURIComponent(json)));
+        lines.push(`<!-- gemini-metadata: ${b64} -->`);
+    }
+    if (marked) {
+        lines.push(`<!-- gemini-message:end id=${msg.id} -->`);
+    }
+
+    return lines.join('\n');
+}
+
+export function formatChatContent(messages: ChatMessage[], format: number): string {
+    return messages.map(msg => formatMessage(msg, format)).join('\n\n');
+}
+
+export function usesMessageMarkers(content: string): boolean {
+    return new RegExp(MESSAGE_START_PATTERN.source, 'm').test(content);
+}
+
+/**
+ * Reads the messages of a chat note in either layout. The frontmatter is skipped.
+ */
+export function parseChatContent(content: string): ChatMessage[] {
+    const body = content.replace(/\r\n/g, '\n').replace(FRONTMATTER_PATTERN, '');
+    const messages = usesMessageMarkers(body) ? parseMarkedMessages(body) : parseLegacyMessages(body.trim());
+
+    // Messages of old notes have no id until the note is upgraded; the position keeps it the same on every read.
+    // Messages saved before branching have no parent link: each one follows the message before it.
+    messages.forEach((msg, i) => {
+        msg.id ??= `legacy-${i}`;
+        if (msg.parentId === undefined) {
+            msg.parentId = i > 0 ? messages[i - 1].id : null;
+        }
+    });
+    return messages;
+}
+
+/**
+ * Reads the messages between start and end markers. Markers quoted inside a message
+ * are part of its text. A message whose end marker was deleted runs until the next
+ * start marker; text outside of messages is ignored.
+ */
+function parseMarkedMessages(body: string): ChatMessage[] {
+    const messages: ChatMessage[] = [];
+    const starts = Array.from(body.matchAll(MESSAGE_START_PATTERN));
+    let position = 0;
+
+    starts.forEach((start, i) => {
+        const startIndex = start.index as number;
+        if (startIndex < position) return;
+
+        const textStart = startIndex + start[0].length;
+        const endMarker = `<!-- gemini-message:end id=${start[1]} -->`;
+        let textEnd = body.indexOf(endMarker, textStart);
+        if (textEnd >= 0) {
+            position = textEnd + endMarker.length;
+        } else {
+            const next = starts.slice(i + 1).find(match => (match.index as number) >= textStart);
+            textEnd = next ? next.index as number : body.length;
+            position = textEnd;
+        }
+
+        // The role label is only there for reading the note
+        const text = body.slice(textStart, textEnd).trim().replace(/^\*\*(?:user|ai)\*\*: ?/, '');
+        messages.push({ ...parseMessage(text, start[2] as 'user' | 'model'), id: start[1] });
+    });
+
+    return messages;
+}
+
+/**
+ * Format 1: messages start with "**user**: " or "**ai**: " after a blank line.
+ */
+function parseLegacyMessages(chatContent: string): ChatMessage[] {
+    const messages: ChatMessage[] = [];
+
+    // Matches **user**: or **ai**: followed by content until the next **role**: or end of string
+    const messagePattern = /\*\*(user|ai)\*\*: ([\s\S]*?)(?=(?:\n\n\*\*(?:user|ai)\*\*: )|$)/g;
+
+    let match;
+    while ((match = messagePattern.exec(chatContent)) !== null) {
+        messages.push(parseMessage(match[2], match[1] === 'ai' ? 'model' : 'user'));
+    }
+
+    return messages;
+}
+
+/**
+ * Splits the metadata comment and timestamp line off a message's text.
+ */
+function parseMessage(text: string, role: 'user' | 'model'): ChatMessage {
+    let content = text.trim();
+    let metadata: Partial<ChatMessage> = {};
+
+    const metadataMatch = content.match(METADATA_PATTERN);
+    if (metadataMatch) {
+        try {
+            const json = decodeURIComponent(escape(atob(metadataMatch[1])));
+            metadata = JSON.parse(json);
+            content = content.slice(0, metadataMatch.index).trim();
+        } catch (e) {
+            console.error("Failed to parse gemini metadata:", e);
+        }
+    }
+
+    let timestamp: string | undefined;
+    const timestampMatch = content.match(TIMESTAMP_PATTERN);
+    if (timestampMatch) {
+        // Older notes have local date strings; keep those that cannot be read as they are
+        const time = Date.parse(timestampMatch[1]);
+        timestamp = isNaN(time) ? timestampMatch[1] : new Date(time).toISOString();
+        content = content.slice(0, timestampMatch.index).trim();
+    }
+
+    return { ...metadata, role, content, timestamp };
+}
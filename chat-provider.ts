@@ -0,0 +1,179 @@
+import { GeminiChatMessage, GeminiPluginSettings, GenerationParameters, ProviderId } from "./types";
+
+export interface ChatModelOption {
+    id: string;
+    name: string;
+}
+
+export interface ChatRequestOptions {
+    signal?: AbortSignal;
+    onUpdate?: (partial: GeminiChatMessage) => void; // If set, the response is streamed
+    toolExecutor?: (name: string, args: Record<string, any>) => Promise<Record<string, any>>; // Runs vault tool calls
+    enableThinking?: boolean; // Per-chat override of the thinking setting
+    systemInstruction?: string; // Text of the chat's persona, if any
+    generation?: GenerationParameters; // Resolved sampling and safety parameters
+    cachedContentName?: string; // Gemini only: explicit cache holding the first media file
+    validFileUris?: Set<string>; // Gemini only: file URIs that are still available for filtering expired files
+}
+
+/**
+ * A chat backend. History is always kept in the Gemini message format
+ * (`GeminiChatMessage` with Gemini-style parts); each provider translates it
+ * to its own request format and maps the reply back.
+ */
+export interface ChatProvider {
+    id: ProviderId;
+    name: string;
+    listModels(settings: GeminiPluginSettings): Promise<ChatModelOption[]>;
+    generateContent(
+        history: GeminiChatMessage[],
+        modelName: string,
+        settings: GeminiPluginSettings,
+        options?: ChatRequestOptions
+    ): Promise<GeminiChatMessage>;
+}
+
+export const PROVIDER_NAMES: Record<ProviderId, string> = {
+    gemini: 'Google Gemini',
+    openai: 'OpenAI-compatible',
+    ollama: 'Ollama (local)'
+};
+
+export function getDefaultModel(settings: GeminiPluginSettings): string {
+    switch (settings.provider) {
+        case 'openai':
+            return settings.openAiModel;
+        case 'ollama':
+            return settings.ollamaModel;
+        default:
+            return settings.modelName;
+    }
+}
+
+export type TranslatedPart =
+    | { type: 'text'; text: string }
+    | { type: 'image'; mimeType: string; data: string };
+
+/**
+ * Reduces Gemini parts to the text and inline images other providers understand.
+ * Thoughts and function calls are dropped; uploaded Gemini files cannot be
+ * referenced elsewhere, so they become a short placeholder.
+ */
+export function translateParts(msg: GeminiChatMessage): TranslatedPart[] {
+    if (!msg.parts || msg.parts.length === 0) {
+        return [{ type: 'text', text: msg.content }];
+    }
+
+    const result: TranslatedPart[] = [];
+    for (const part of msg.parts) {
+        if (part.thought) continue;
+        const inline = part.inline_data || part.inlineData;
+        const inlineMime: string | undefined = inline ? (inline.mime_type || inline.mimeType) : undefined;
+        if (typeof part.text === 'string') {
+            result.push({ type: 'text', text: part.text });
+        } else if (inline && inlineMime && inlineMime.startsWith('image/')) {
+            result.push({ type: 'image', mimeType: inlineMime, data: inline.data });
+        } else if (part.file_data) {
+            result.push({ type: 'text', text: '[Attached file is not available to this model]' });
+        }
+    }
+
+    if (result.length === 0) {
+        result.push({ type: 'text', text: msg.content });
+    }
+    return result;
+}
+
+/**
+ * Reads a streamed response body line by line, calling `onLine` for each complete line.
+ * Used for both SSE (`data: ...`) and newline-delimited JSON streams.
+ * Returns true if the stream was aborted after at least one line had been delivered.
+ */
+export async function readLines(response: Response, onLine: (line: string) => void): Promise<boolean> {
+    if (!response.body) {
+        throw new Error('Streaming is not supported: response has no body.');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let delivered = false;
+
+    try {
+        for (;;) {
+            const { done, value } = await reader.read();
+            if (done) break;
+
+            buffer += decoder.decode(value, { stream: true });
+            let newline = buffer.indexOf('\n');
+            while (newline !== -1) {
+                const line = buffer.slice(0, newline).replace(/\r$/, '');
+                buffer = buffer.slice(newline + 1);
+                if (line.trim()) {
+                    onLine(line);
+                    delivered = true;
+                }
+                newline = buffer.indexOf('\n');
+            }
+        }
+    } catch (error) {
+        if (error.name === 'AbortError' && delivered) {
+            return true;
+        }
+        throw error;
+    }
+
+    if (buffer.trim()) {
+        onLine(buffer);
+    }
+    return false;
+}
+
+/**
+ * Maps OpenAI and Ollama finish reasons to the Gemini names used in history.
+ */
+export function mapFinishReason(reason: string | null | undefined): string | undefined {
+    switch (reason) {
+        case undefined:
+        case null:
+        case '':
+            return undefined;
+        case 'length':
+            return 'MAX_TOKENS';
+        case 'content_filter':
+            return 'SAFETY';
+        case 'stop':
+        case 'tool_calls':
+        case 'function_call':
+            return 'STOP';
+        default:
+            return 'OTHER';
+    }
+}
+
+/**
+ * Builds the model message stored in history from a plain-text provider reply.
+ * Like a Gemini response, a reply without answer text has no content parts.
+ */
+export function buildTextReply(
+    content: string,
+    thought: string,
+    usage?: { promptTokenCount: number; candidatesTokenCount: number },
+    finishReason?: string
+): GeminiChatMessage {
+    const hasContent = content.trim().length > 0;
+    let text = content;
+    if (!hasContent) {
+        text = thought ? "(Thinking process only, no final response generated)" : "(No response content generated)";
+    }
+    return {
+        role: 'model',
+        content: text,
+        parts: hasContent ? [{ text }] : [],
+        thought: thought,
+        usageMetadata: usage
+            ? { ...usage, totalTokenCount: usage.promptTokenCount + usage.candidatesTokenCount }
+            : undefined,
+        finishReason: finishReason
+    };
+}
@@ -1,6 +1,7 @@
-import { GeminiPluginSettings } from "./types";
+import { GeminiModelInfo, GeminiPluginSettings, HarmBlockThreshold, HarmCategory, ModelPrice } from "./types";
 
 export const DEFAULT_SETTINGS: GeminiPluginSettings = {
+    provider: 'gemini',
     apiKey: '',
     modelName: 'gemini-3-pro-preview',
     thinkingLevel: 'high',
@@ -8,15 +9,75 @@ export const DEFAULT_SETTINGS: GeminiPluginSettings = {
     chatHistoryFolder: 'Gemini Chats',
     enableGoogleSearch: false,
     enableUrlContext: false,
-    mediaResolution: 'auto'
+    enableCodeExecution: false,
+    mediaResolution: 'auto',
+    enableStreaming: true,
+    enableVaultTools: false,
+    openAiBaseUrl: 'https://api.openai.com/v1',
+    openAiApiKey: '',
+    openAiModel: 'gpt-4o-mini',
+    ollamaBaseUrl: 'http://localhost:11434',
+    ollamaModel: 'llama3.1',
+    personaFolder: 'Gemini Personas',
+    defaultPersona: '',
+    generationDefaults: {},
+    contextTrimStrategy: 'drop_oldest',
+    activeNoteLinkDepth: 0,
+    linkedNotesTokenBudget: 8000,
+    modelPrices: {},
+    budgetDailyTokens: 0,
+    budgetMonthlyTokens: 0,
+    budgetDailyCost: 0,
+    budgetMonthlyCost: 0,
+    budgetAction: 'block',
+    budgetFallbackModel: 'gemini-2.5-flash-lite',
+    enableSemanticIndex: false,
+    embeddingModel: 'gemini-embedding-001',
+    enableLexicalIndex: false,
+    autoContextSource: 'semantic',
+    enableAutoContext: false,
+    autoContextMaxPassages: 6,
+    autoContextTokenBudget: 3000
 };
 
+// Published paid-tier prices (USD per 1M tokens, prompts up to 200k tokens), used when
+// no price is configured. Check https://ai.google.dev/gemini-api/docs/pricing for changes.
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+    'gemini-3-pro': { input: 2.00, output: 12.00, cachedInput: 0.20 },
+    'gemini-3-flash': { input: 0.50, output: 3.00, cachedInput: 0.05 },
+    'gemini-2.5-pro': { input: 1.25, output: 10.00, cachedInput: 0.125 },
+    'gemini-2.5-flash-lite': { input: 0.10, output: 0.40, cachedInput: 0.01 },
+    'gemini-2.5-flash': { input: 0.30, output: 2.50, cachedInput: 0.03 },
+    'gemini-embedding-001': { input: 0.15, output: 0 }
+};
+
+export const HARM_CATEGORIES: { id: HarmCategory, name: string }[] = [
+    { id: 'HARM_CATEGORY_HARASSMENT', name: 'Harassment' },
+    { id: 'HARM_CATEGORY_HATE_SPEECH', name: 'Hate speech' },
+    { id: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', name: 'Sexually explicit' },
+    { id: 'HARM_CATEGORY_DANGEROUS_CONTENT', name: 'Dangerous content' },
+    { id: 'HARM_CATEGORY_CIVIC_INTEGRITY', name: 'Civic integrity' }
+];
+
+export const HARM_BLOCK_THRESHOLDS: { id: HarmBlockThreshold, name: string }[] = [
+    { id: 'BLOCK_LOW_AND_ABOVE', name: 'Block low and above' },
+    { id: 'BLOCK_MEDIUM_AND_ABOVE', name: 'Block medium and above' },
+    { id: 'BLOCK_ONLY_HIGH', name: 'Block only high' },
+    { id: 'BLOCK_NONE', name: 'Block none' },
+    { id: 'OFF', name: 'Off' }
+];
+
+// Upper bound on function call rounds per reply, to stop runaway tool loops
+export const MAX_TOOL_ROUNDS = 8;
+
 export const VIEW_TYPE_GEMINI_CHAT = 'gemini-chat-view';
+export const VIEW_TYPE_USAGE_DASHBOARD = 'gemini-usage-dashboard';
 
-export const GEMINI_MODELS = [
-    { id: 'gemini-3-pro-preview', name: 'Gemini 3 Pro' },
-    { id: 'gemini-3-flash-preview', name: 'Gemini 3 Flash' },
-    { id: 'gemini-2.5-pro', name: 'Gemini 2.5 Pro' },
-    { id: 'gemini-2.5-flash', name: 'Gemini 2.5 Flash' },
-    { id: 'gemini-2.5-flash-lite', name: 'Gemini 2.5 Flash Lite' }
+// Used until the models endpoint has been fetched, and when it cannot be reached
+export const GEMINI_MODELS: GeminiModelInfo[] = [
+    { id: 'gemini-3-pro-preview', name: 'Gemini 3 Pro', inputTokenLimit: 1048576, outputTokenLimit: 65536, thinking: 'level', apiVersion: 'v1alpha', supportsCaching: true, supportsMediaResolution: true },
+    { id: 'gemini-3-flash-preview', name: 'Gemini 3 Flash', inputTokenLimit: 1048576, outputTokenLimit: 65536, thinking: 'level', apiVersion: 'v1alpha', supportsCaching: true, supportsMediaResolution: true },
+    { id: 'gemini-2.5-pro', name: 'Gemini 2.5 Pro', inputTokenLimit: 1048576, outputTokenLimit: 65536, thinking: 'budget', apiVersion: 'v1beta', supportsCaching: true, supportsMediaResolution: false },
+    { id: 'gemini-2.5-flash', name: 'Gemini 2.5 Flash', inputTokenLimit: 1048576, outputTokenLimit: 65536, thinking: 'budget', apiVersion: 'v1beta', supportsCaching: true, supportsMediaResolution: false },
+    { id: 'gemini-2.5-flash-lite', name: 'Gemini 2.5 Flash Lite', inputTokenLimit: 1048576, outputTokenLimit: 65536, thinking: 'budget', apiVersion: 'v1beta', supportsCaching: true, supportsMediaResolution: false }
 ];
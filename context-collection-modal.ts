@@ -0,0 +1,180 @@
+import { App, Modal, Notice, Setting, TFolder, debounce, getAllTags } from "obsidian";
+import { CollectionService, DEFAULT_COLLECTION_LIMIT, ResolvedCollection, formatTokenCount } from "./context-collection";
+import { ContextCollection } from "./types";
+
+const KIND_NAMES: Record<ContextCollection['kind'], string> = {
+    folder: 'Folder',
+    tag: 'Tag',
+    search: 'Search results'
+};
+
+const QUERY_HINTS: Record<ContextCollection['kind'], { placeholder: string; desc: string }> = {
+    folder: { placeholder: 'Projects/Q3', desc: 'Folder path. Leave empty for the whole vault.' },
+    tag: { placeholder: '#project', desc: 'Notes with this tag or one of its nested tags (#project/q3).' },
+    search: {
+        placeholder: 'meeting "next steps" -draft path:Work',
+        desc: 'Words and "phrases" must all match. Supports -exclude, file:, path: and tag:.'
+    }
+};
+
+/**
+ * Defines a folder, tag or search collection for the chat context,
+ * with a live preview of its note count and size.
+ */
+export class ContextCollectionModal extends Modal {
+    private service: CollectionService;
+    private chatHistoryFolder: string;
+    private onAdd: (resolved: ResolvedCollection) => void;
+    private collection: ContextCollection = { kind: 'folder', query: '', recursive: true, limit: DEFAULT_COLLECTION_LIMIT, order: 'recent' };
+    private previewSetting: Setting;
+    private previewVersion = 0;
+
+    constructor(app: App, service: CollectionService, chatHistoryFolder: string, onAdd: (resolved: ResolvedCollection) => void) {
+        super(app);
+        this.service = service;
+        this.chatHistoryFolder = chatHistoryFolder;
+        this.onAdd = onAdd;
+    }
+
+    onOpen() {
+        this.render();
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+
+    private render() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl('h2', { text: 'Add Notes to Context' });
+
+        new Setting(contentEl)
+            .setName('Source')
+            .addDropdown(dropdown => {
+                for (const [kind, name] of Object.entries(KIND_NAMES)) {
+                    dropdown.addOption(kind, name);
+                }
+                dropdown.setValue(this.collection.kind).onChange(value => {
+                    this.collection.kind = value as ContextCollection['kind'];
+                    this.collection.query = '';
+                    this.render();
+                });
+            });
+
+        const hint = QUERY_HINTS[this.collection.kind];
+        new Setting(contentEl)
+            .setName(this.collection.kind === 'search' ? 'Query' : KIND_NAMES[this.collection.kind])
+            .setDesc(hint.desc)
+            .addText(text => {
+                text.setPlaceholder(hint.placeholder)
+                    .setValue(this.collection.query)
+                    .onChange(value => {
+                        this.collection.query = value.trim();
+                        this.requestPreview();
+                    });
+                const options = this.getQueryOptions();
+                if (options.length > 0) {
+                    const listId = 'gemini-collection-options';
+                    const datalist = contentEl.createEl('datalist', { attr: { id: listId } });
+                    options.forEach(option => datalist.createEl('option', { value: option }));
+                    text.inputEl.setAttribute('list', listId);
+                }
+                window.setTimeout(() => text.inputEl.focus(), 0);
+            });
+
+        if (this.collection.kind === 'folder') {
+            new Setting(contentEl)
+                .setName('Include Subfolders')
+                .addToggle(toggle => toggle
+                    .setValue(this.collection.recursive)
+                    .onChange(value => {
+                        this.collection.recursive = value;
+                        this.requestPreview();
+                    }));
+        }
+
+        new Setting(contentEl)
+            .setName('Note Limit')
+            .setDesc('At most this many notes are sent.')
+            .addSlider(slider => slider
+                .setLimits(1, 100, 1)
+                .setValue(this.collection.limit)
+                .setDynamicTooltip()
+                .onChange(value => {
+                    this.collection.limit = value;
+                    this.requestPreview();
+                }));
+
+        new Setting(contentEl)
+            .setName('Order')
+            .setDesc('Which notes come first, and are kept when there are more than the limit.')
+            .addDropdown(dropdown => dropdown
+                .addOption('recent', 'Recently modified first')
+                .addOption('path', 'By path')
+                .setValue(this.collection.order)
+                .onChange(value => {
+                    this.collection.order = value as ContextCollection['order'];
+                    this.requestPreview();
+                }));
+
+        this.previewSetting = new Setting(contentEl)
+            .addButton(btn => btn
+                .setButtonText('Add')
+                .setCta()
+                .onClick(() => this.add()));
+        this.updatePreview();
+    }
+
+    private getQueryOptions(): string[] {
+        if (this.collection.kind === 'folder') {
+            return this.app.vault.getAllLoadedFiles()
+                .filter((file): file is TFolder => file instanceof TFolder && !file.isRoot())
+                .map(folder => folder.path)
+                .sort();
+        }
+        if (this.collection.kind === 'tag') {
+            const tags = new Set<string>();
+            for (const file of this.app.vault.getMarkdownFiles()) {
+                const cache = this.app.metadataCache.getFileCache(file);
+                (cache ? getAllTags(cache) || [] : []).forEach(tag => tags.add(tag));
+            }
+            return Array.from(tags).sort();
+        }
+        return [];
+    }
+
+    private requestPreview = debounce(() => this.updatePreview(), 300, true);
+
+    private async updatePreview() {
+        const version = ++this.previewVersion;
+        const resolved = await this.service.resolve({ ...this.collection }, this.chatHistoryFolder);
+        // A newer preview was started meanwhile
+        if (version !== this.previewVersion) return;
+        this.previewSetting.setName(describeResolved(resolved));
+    }
+
+    private async add() {
+        if (this.collection.kind !== 'folder' && !this.collection.query) {
+            new Notice(`Enter a ${this.collection.kind === 'tag' ? 'tag' : 'search query'}.`);
+            return;
+        }
+        const resolved = await this.service.resolve({ ...this.collection }, this.chatHistoryFolder);
+        if (resolved.matched === 0) {
+            new Notice('No notes match.');
+            return;
+        }
+        this.onAdd(resolved);
+        this.close();
+    }
+}
+
+/**
+ * "12 notes · ~8.4k tokens", or "20 of 57 notes · …" when the limit applies.
+ */
+export function describeResolved(resolved: ResolvedCollection): string {
+    const count = resolved.matched > resolved.files.length
+        ? `${resolved.files.length} of ${resolved.matched} notes`
+        : `${resolved.matched} ${resolved.matched === 1 ? 'note' : 'notes'}`;
+    return `${count} · ~${formatTokenCount(resolved.tokens)} tokens`;
+}
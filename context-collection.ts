@@ -0,0 +1,157 @@
+import { App, TFile, getAllTags, normalizePath } from "obsidian";
+import { estimateTokens } from "./context-guard";
+import { isIndexableNote } from "./note-chunker";
+import { ContextCollection } from "./types";
+
+export const DEFAULT_COLLECTION_LIMIT = 20;
+
+export const COLLECTION_ICONS: Record<ContextCollection['kind'], string> = {
+    folder: 'folder',
+    tag: 'tag',
+    search: 'search'
+};
+
+/**
+ * A collection expanded to its notes. `matched` counts all matching notes,
+ * `files` only those within the limit.
+ */
+export interface ResolvedCollection {
+    collection: ContextCollection;
+    files: TFile[];
+    matched: number;
+    tokens: number; // Estimated from the file sizes
+}
+
+interface SearchTerm {
+    field: 'content' | 'file' | 'path' | 'tag';
+    value: string; // Lowercased
+    negated: boolean;
+}
+
+export function describeCollection(collection: ContextCollection): string {
+    switch (collection.kind) {
+        case 'folder': {
+            const folder = collection.query || '/';
+            return collection.recursive ? folder : `${folder} (top level)`;
+        }
+        case 'tag':
+            return `#${normalizeTag(collection.query)}`;
+        case 'search':
+            return `"${collection.query}"`;
+    }
+}
+
+/**
+ * "840" or "8.4k".
+ */
+export function formatTokenCount(tokens: number): string {
+    return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+}
+
+function normalizeTag(tag: string): string {
+    return tag.trim().replace(/^#/, '').toLowerCase();
+}
+
+/**
+ * Parses the supported subset of Obsidian's search syntax: words and "quoted phrases"
+ * that must all match, `-term` to exclude, and the `file:`, `path:` and `tag:` operators.
+ */
+export function parseSearchQuery(query: string): SearchTerm[] {
+    const terms: SearchTerm[] = [];
+    for (const match of query.matchAll(/(-?)(?:(file|path|tag|content):)?(?:"([^"]*)"|(\S+))/gi)) {
+        const value = (match[3] ?? match[4]).toLowerCase();
+        if (!value) continue;
+        terms.push({
+            field: (match[2]?.toLowerCase() ?? 'content') as SearchTerm['field'],
+            value: value,
+            negated: match[1] === '-'
+        });
+    }
+    return terms;
+}
+
+/**
+ * Expands folder, tag and search collections to vault notes. The chat history
+ * folder is left out of every result, even a folder collection that contains it.
+ */
+export class CollectionService {
+    app: App;
+
+    constructor(app: App) {
+        this.app = app;
+    }
+
+    async resolve(collection: ContextCollection, chatHistoryFolder: string): Promise<ResolvedCollection> {
+        const matches = await this.findNotes(collection, chatHistoryFolder);
+        if (collection.order === 'recent') {
+            matches.sort((a, b) => b.stat.mtime - a.stat.mtime);
+        } else {
+            matches.sort((a, b) => a.path.localeCompare(b.path));
+        }
+        const files = matches.slice(0, Math.max(1, collection.limit));
+        const tokens = files.reduce((sum, file) => sum + estimateTokens(file.stat.size), 0);
+        return { collection, files, matched: matches.length, tokens };
+    }
+
+    private async findNotes(collection: ContextCollection, chatHistoryFolder: string): Promise<TFile[]> {
+        const notes = this.app.vault.getMarkdownFiles();
+        switch (collection.kind) {
+            case 'folder': {
+                const folder = normalizePath(collection.query || '/');
+                const isRoot = folder === '/';
+                return notes.filter(file => isIndexableNote(file, chatHistoryFolder) && (collection.recursive
+                    ? isRoot || file.path.startsWith(`${folder}/`)
+                    : (file.parent?.path ?? '/') === folder));
+            }
+            case 'tag': {
+                const tag = normalizeTag(collection.query);
+                if (!tag) return [];
+                return notes.filter(file => isIndexableNote(file, chatHistoryFolder) && this.getTags(file).some(
+                    fileTag => fileTag === tag || fileTag.startsWith(`${tag}/`)
+                ));
+            }
+            case 'search': {
+                const terms = parseSearchQuery(collection.query);
+                if (terms.length === 0) return [];
+                const matches: TFile[] = [];
+                for (const file of notes) {
+                    if (isIndexableNote(file, chatHistoryFolder) && await this.matchesSearch(file, terms)) {
+                        matches.push(file);
+                    }
+                }
+                return matches;
+            }
+        }
+    }
+
+    private getTags(file: TFile): string[] {
+        const cache = this.app.metadataCache.getFileCache(file);
+        return cache ? (getAllTags(cache) || []).map(normalizeTag) : [];
+    }
+
+    private async matchesSearch(file: TFile, terms: SearchTerm[]): Promise<boolean> {
+        let content: string | null = null;
+        for (const term of terms) {
+            let found: boolean;
+            switch (term.field) {
+                case 'file':
+                    found = file.name.toLowerCase().includes(term.value);
+                    break;
+                case 'path':
+                    found = file.path.toLowerCase().includes(term.value);
+                    break;
+                case 'tag': {
+                    const tag = normalizeTag(term.value);
+                    found = this.getTags(file).some(fileTag => fileTag === tag || fileTag.startsWith(`${tag}/`));
+                    break;
+                }
+                default:
+                    // Only read once a content term is reached
+                    content ??= (await this.app.vault.cachedRead(file)).toLowerCase();
+                    found = content.includes(term.value) || file.basename.toLowerCase().includes(term.value);
+            }
+            if (found === term.negated) return false;
+        }
+        return true;
+    }
+}
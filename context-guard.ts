@@ -0,0 +1,287 @@
+import { GeminiApiClient } from "./gemini-api-client";
+import { GeminiChatMessage, GeminiModelInfo, GeminiPluginSettings, GeminiUsageMetadata } from "./types";
+
+// Rough token cost used to rank items; the total always comes from countTokens
+const CHARS_PER_TOKEN = 4;
+const MEDIA_PART_TOKENS = 258;
+// Requests are trimmed to this share of the input limit, leaving room for estimation errors
+const TARGET_SHARE = 0.95;
+// Below this share of the limit (by estimate) and without media, countTokens is skipped
+const COUNT_THRESHOLD_SHARE = 0.5;
+const MAX_TRIM_PASSES = 3;
+const SUMMARY_PROMPT = 'Summarize the conversation above in a compact form for your own later reference. Keep names, facts, decisions, open questions and any instructions the user gave. Reply with the summary only.';
+
+/**
+ * A context item of the current turn (a note or a media file) that can be
+ * dropped from the request. `part` is the exact part object in the user message.
+ */
+export interface ContextAttachment {
+    label: string;
+    part: any;
+}
+
+export interface ContextItemCost {
+    label: string;
+    tokens: number;
+}
+
+export interface ContextGuardResult {
+    history: GeminiChatMessage[]; // What to send; the chat history itself is never changed
+    totalTokens?: number; // Undefined when counting was skipped
+    overLimit: boolean; // True if the assembled request exceeded the limit
+    largestItems: ContextItemCost[];
+    actions: string[]; // Human-readable description of what was trimmed
+    summaryUsage?: GeminiUsageMetadata; // Tokens spent on a new summary, for the usage ledger
+}
+
+interface GuardRequest {
+    history: GeminiChatMessage[];
+    attachments: ContextAttachment[];
+    model: GeminiModelInfo;
+    settings: GeminiPluginSettings;
+    systemInstruction?: string | null;
+    cachedContentName?: string;
+    vaultTools?: boolean; // Whether the vault tool declarations are sent with the request
+    validFileUris?: Set<string>;
+    signal?: AbortSignal;
+}
+
+/**
+ * Rough token count of a text of `length` characters, also used for notes by file size.
+ */
+export function estimateTokens(length: number): number {
+    return Math.ceil(length / CHARS_PER_TOKEN);
+}
+
+function estimatePartTokens(part: any): number {
+    if (typeof part.text === 'string') {
+        return estimateTokens(part.text.length);
+    }
+    if (part.inline_data || part.inlineData || part.file_data) {
+        return MEDIA_PART_TOKENS;
+    }
+    return estimateTokens(JSON.stringify(part).length);
+}
+
+function estimateMessageTokens(msg: GeminiChatMessage): number {
+    const parts = msg.parts && msg.parts.length > 0 ? msg.parts : [{ text: msg.content }];
+    return parts.reduce((sum, part) => sum + estimatePartTokens(part), 0);
+}
+
+function describeMessage(msg: GeminiChatMessage, index: number): string {
+    const preview = msg.content.replace(/\s+/g, ' ').trim().slice(0, 40);
+    return `Message ${index + 1} (${msg.role === 'user' ? 'you' : 'model'}): "${preview}${msg.content.length > 40 ? '…' : ''}"`;
+}
+
+/**
+ * Keeps Gemini requests within the model's input token limit. Counts the assembled
+ * request before sending and, when it is too large, trims it with the configured strategy.
+ */
+export class ContextGuard {
+    apiClient: GeminiApiClient;
+    // Summary of the first `count` messages of the current chat, reused while they are unchanged
+    private summary: { count: number; lastMessage: GeminiChatMessage; text: string } | null = null;
+
+    constructor(apiClient: GeminiApiClient) {
+        this.apiClient = apiClient;
+    }
+
+    reset() {
+        this.summary = null;
+    }
+
+    async fit(request: GuardRequest): Promise<ContextGuardResult> {
+        const { model, settings } = request;
+        const limit = model.inputTokenLimit;
+        let history = request.history;
+        const result: ContextGuardResult = { history, overLimit: false, largestItems: [], actions: [] };
+        if (!limit) {
+            return result;
+        }
+
+        // Cached content can be of any size, so it is always counted
+        const hasMedia = history.some(msg => (msg.parts || []).some(p => p.file_data || p.inline_data));
+        const estimate = history.reduce((sum, msg) => sum + estimateMessageTokens(msg), 0)
+            + estimateTokens((request.systemInstruction || '').length);
+        if (!hasMedia && !request.cachedContentName && estimate < limit * COUNT_THRESHOLD_SHARE) {
+            return result;
+        }
+
+        let total = await this.count(history, request);
+        result.totalTokens = total;
+        const target = Math.floor(limit * TARGET_SHARE);
+        if (total <= target) {
+            return result;
+        }
+
+        result.overLimit = true;
+        result.largestItems = await this.rankItems(request);
+
+        for (let pass = 0; pass < MAX_TRIM_PASSES && total > target; pass++) {
+            const overflow = total - target;
+            switch (settings.contextTrimStrategy) {
+                case 'drop_largest_attachments':
+                    history = this.dropLargestAttachments(history, request.attachments, overflow, result.actions);
+                    break;
+                case 'summarize':
+                    history = await this.summarizeEarlier(history, overflow, request, result);
+                    break;
+                default:
+                    history = this.dropOldest(history, overflow, result.actions);
+            }
+            total = await this.count(history, request);
+        }
+
+        result.history = history;
+        result.totalTokens = total;
+        if (total > target) {
+            throw new Error(`The request needs ${total.toLocaleString()} tokens, more than the ${limit.toLocaleString()} token limit of ${model.name}, even after trimming. Remove some context and try again.`);
+        }
+        return result;
+    }
+
+    private async count(history: GeminiChatMessage[], request: GuardRequest): Promise<number> {
+        return this.apiClient.countRequestTokens(history, request.model.id, request.settings, {
+            systemInstruction: request.systemInstruction,
+            cachedContentName: request.cachedContentName,
+            vaultTools: request.vaultTools,
+            validFileUris: request.validFileUris
+        });
+    }
+
+    /**
+     * Lists the most expensive parts of the request: attachments of this turn and earlier messages.
+     * Media attachments are counted exactly, everything else is estimated.
+     */
+    private async rankItems(request: GuardRequest): Promise<ContextItemCost[]> {
+        const attachmentParts = new Set(request.attachments.map(a => a.part));
+        const items: ContextItemCost[] = [];
+
+        for (const attachment of request.attachments) {
+            let tokens = estimatePartTokens(attachment.part);
+            if (attachment.part.file_data || attachment.part.inline_data) {
+                try {
+                    const result = await this.apiClient.countTokens([{ role: 'user', parts: [attachment.part] }], request.model.id, request.settings.apiKey);
+                    tokens = result.totalTokens || tokens;
+                } catch (e) {
+                    // Keep the estimate
+                }
+            }
+            items.push({ label: attachment.label, tokens });
+        }
+
+        request.history.forEach((msg, index) => {
+            const parts = (msg.parts && msg.parts.length > 0 ? msg.parts : [{ text: msg.content }]).filter(p => !attachmentParts.has(p));
+            const tokens = parts.reduce((sum, part) => sum + estimatePartTokens(part), 0);
+            if (tokens > 0) {
+                items.push({ label: describeMessage(msg, index), tokens });
+            }
+        });
+
+        return items.sort((a, b) => b.tokens - a.tokens).slice(0, 3);
+    }
+
+    /**
+     * Removes the oldest turns until the estimated savings cover the overflow.
+     * The request always starts with a user message and keeps the latest one.
+     */
+    private dropOldest(history: GeminiChatMessage[], overflow: number, actions: string[]): GeminiChatMessage[] {
+        let saved = 0;
+        let start = 0;
+        while (start < history.length - 1 && saved < overflow) {
+            saved += estimateMessageTokens(history[start]);
+            start++;
+            // Never start the request with a model message
+            while (start < history.length - 1 && history[start].role !== 'user') {
+                saved += estimateMessageTokens(history[start]);
+                start++;
+            }
+        }
+        if (start === 0) {
+            return history;
+        }
+        actions.push(`dropped the ${start} oldest message${start === 1 ? '' : 's'}`);
+        return history.slice(start);
+    }
+
+    /**
+     * Removes the largest attachments of the current turn, falling back to dropping
+     * old turns when attachments alone are not enough.
+     */
+    private dropLargestAttachments(
+        history: GeminiChatMessage[],
+        attachments: ContextAttachment[],
+        overflow: number,
+        actions: string[]
+    ): GeminiChatMessage[] {
+        const last = history[history.length - 1];
+        const present = attachments.filter(a => (last.parts || []).includes(a.part));
+        const byCost = [...present].sort((a, b) => estimatePartTokens(b.part) - estimatePartTokens(a.part));
+
+        const dropped = new Set<any>();
+        const labels: string[] = [];
+        let saved = 0;
+        for (const attachment of byCost) {
+            if (saved >= overflow) break;
+            dropped.add(attachment.part);
+            labels.push(attachment.label);
+            saved += estimatePartTokens(attachment.part);
+        }
+
+        let trimmed = history;
+        if (dropped.size > 0) {
+            let parts = (last.parts || []).filter(p => !dropped.has(p));
+            if (parts.length === 0) {
+                parts = [{ text: '[Attachments removed to fit the context window]' }];
+            }
+            trimmed = [...history.slice(0, -1), { ...last, parts }];
+            actions.push(`dropped ${labels.join(', ')}`);
+        }
+        if (saved < overflow) {
+            trimmed = this.dropOldest(trimmed, overflow - saved, actions);
+        }
+        return trimmed;
+    }
+
+    /**
+     * Replaces the oldest turns with a model-written summary, prepended to the first
+     * kept user message. The summary is reused for later turns of the same chat.
+     */
+    private async summarizeEarlier(
+        history: GeminiChatMessage[],
+        overflow: number,
+        request: GuardRequest,
+        result: ContextGuardResult
+    ): Promise<GeminiChatMessage[]> {
+        // Leave room for the summary itself
+        const kept = this.dropOldest(history, overflow + 2000, []);
+        const count = history.length - kept.length;
+        if (count === 0) {
+            return history;
+        }
+
+        const earlier = history.slice(0, count);
+        let summaryText: string;
+        if (this.summary && this.summary.count === count && this.summary.lastMessage === earlier[count - 1]) {
+            summaryText = this.summary.text;
+        } else {
+            const reply = await this.apiClient.generateContent(
+                [...earlier, { role: 'user', content: SUMMARY_PROMPT }],
+                request.model.id,
+                request.settings,
+                { signal: request.signal, enableThinking: false, validFileUris: request.validFileUris }
+            );
+            summaryText = reply.content;
+            result.summaryUsage = reply.usageMetadata;
+            this.summary = { count, lastMessage: earlier[count - 1], text: summaryText };
+        }
+
+        const first = kept[0];
+        const firstParts = first.parts && first.parts.length > 0 ? first.parts : [{ text: first.content }];
+        result.actions.push(`summarized the ${count} oldest message${count === 1 ? '' : 's'}`);
+        return [
+            { ...first, parts: [{ text: `Summary of the earlier conversation:\n${summaryText}` }, ...firstParts] },
+            ...kept.slice(1)
+        ];
+    }
+}
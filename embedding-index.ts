@@ -0,0 +1,366 @@
+import { App, Events, TAbstractFile, TFile, arrayBufferToBase64, base64ToArrayBuffer, debounce, normalizePath } from "obsidian";
+import { describeBudgetUsage, getBudgetStatus } from "./budget-guard";
+import { estimateTokens } from "./context-guard";
+import { geminiRequest } from "./gemini-request";
+import { NoteChunk, chunkMarkdown, isIndexableNote } from "./note-chunker";
+import { UsageLedger } from "./usage-ledger";
+import { GeminiPluginSettings, RetrievalResult, RetrievalSource } from "./types";
+
+const INDEX_VERSION = 1;
+// Reduced output size keeps the index small; vectors are normalized before they are stored
+const EMBEDDING_DIMENSIONS = 768;
+const BATCH_SIZE = 100; // Maximum requests per batchEmbedContents call
+const SAVE_DELAY_MS = 5000;
+// Wait for typing to settle before re-embedding a modified note
+const UPDATE_DELAY_MS = 3000;
+
+type EmbeddingTask = 'RETRIEVAL_DOCUMENT' | 'RETRIEVAL_QUERY';
+
+interface IndexedChunk {
+    heading: string;
+    line: number;
+    text: string;
+    vector: Float32Array;
+}
+
+interface IndexedFile {
+    mtime: number;
+    chunks: IndexedChunk[];
+}
+
+export interface EmbeddingIndexStats {
+    notes: number;
+    passages: number;
+    pending: number;
+    lastError: string;
+}
+
+function normalize(values: number[]): Float32Array {
+    const vector = Float32Array.from(values);
+    const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+    return vector.map(value => value / length);
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+    let sum = 0;
+    for (let i = 0; i < a.length && i < b.length; i++) {
+        sum += a[i] * b[i];
+    }
+    return sum;
+}
+
+/**
+ * Vector index of the vault's markdown notes, chunked by heading and embedded with the
+ * Gemini embeddings API. Stored in the plugin folder and kept current from vault events.
+ * Triggers "changed" whenever notes are added to or removed from the index.
+ */
+export class EmbeddingIndex extends Events implements RetrievalSource {
+    readonly name = 'Semantic index';
+    app: App;
+    settings: GeminiPluginSettings;
+    ledger: UsageLedger;
+    private path: string;
+    private files = new Map<string, IndexedFile>();
+    private model = '';
+    private loaded = false;
+    private queue = new Set<string>();
+    private running: Promise<void> | null = null;
+    private lastError = '';
+
+    constructor(app: App, pluginDir: string, settings: GeminiPluginSettings, ledger: UsageLedger) {
+        super();
+        this.app = app;
+        this.settings = settings;
+        this.ledger = ledger;
+        this.path = normalizePath(`${pluginDir}/embedding-index.json`);
+    }
+
+    async load(): Promise<void> {
+        try {
+            if (await this.app.vault.adapter.exists(this.path)) {
+                const data = JSON.parse(await this.app.vault.adapter.read(this.path));
+                if (data.version === INDEX_VERSION) {
+                    this.model = data.model || '';
+                    for (const [path, file] of Object.entries<any>(data.files || {})) {
+                        this.files.set(path, {
+                            mtime: file.mtime,
+                            chunks: file.chunks.map((chunk: any) => ({
+                                heading: chunk.heading,
+                                line: chunk.line,
+                                text: chunk.text,
+                                vector: new Float32Array(base64ToArrayBuffer(chunk.vector))
+                            }))
+                        });
+                    }
+                }
+            }
+        } catch (error) {
+            console.error('Gemini: Failed to read the embedding index:', error);
+        }
+        this.loaded = true;
+    }
+
+    isEnabled(): boolean {
+        return this.settings.enableSemanticIndex && !!this.settings.apiKey.trim();
+    }
+
+    isReady(): boolean {
+        return this.isEnabled() && this.model === this.settings.embeddingModel && this.files.size > 0;
+    }
+
+    getStats(): EmbeddingIndexStats {
+        let passages = 0;
+        this.files.forEach(file => passages += file.chunks.length);
+        return { notes: this.files.size, passages, pending: this.queue.size, lastError: this.lastError };
+    }
+
+    isIndexable(file: TAbstractFile): file is TFile {
+        return isIndexableNote(file, this.settings.chatHistoryFolder);
+    }
+
+    /**
+     * Brings the index up to date with the vault: queues new and changed notes and
+     * drops deleted ones. A changed embedding model starts a new index.
+     */
+    async sync(): Promise<void> {
+        if (!this.isEnabled()) return;
+        if (this.model !== this.settings.embeddingModel) {
+            this.files.clear();
+            this.model = this.settings.embeddingModel;
+        }
+
+        const present = new Set<string>();
+        for (const file of this.app.vault.getMarkdownFiles()) {
+            if (!this.isIndexable(file)) continue;
+            present.add(file.path);
+            if (this.files.get(file.path)?.mtime !== file.stat.mtime) {
+                this.queue.add(file.path);
+            }
+        }
+        for (const path of Array.from(this.files.keys())) {
+            if (!present.has(path)) {
+                this.files.delete(path);
+            }
+        }
+        this.trigger('changed');
+        await this.processQueue();
+    }
+
+    async rebuild(): Promise<void> {
+        this.files.clear();
+        this.queue.clear();
+        this.lastError = '';
+        await this.save();
+        await this.sync();
+    }
+
+    onModify(file: TAbstractFile) {
+        if (!this.isEnabled() || !this.isIndexable(file)) return;
+        this.queue.add(file.path);
+        this.requestProcess();
+    }
+
+    onDelete(file: TAbstractFile) {
+        this.queue.delete(file.path);
+        if (this.files.delete(file.path)) {
+            this.trigger('changed');
+            this.requestSave();
+        }
+    }
+
+    onRename(file: TAbstractFile, oldPath: string) {
+        const entry = this.files.get(oldPath);
+        this.files.delete(oldPath);
+        this.queue.delete(oldPath);
+        if (this.isIndexable(file)) {
+            if (entry) {
+                this.files.set(file.path, entry);
+            } else if (this.isEnabled()) {
+                this.queue.add(file.path);
+                this.requestProcess();
+            }
+        }
+        this.trigger('changed');
+        this.requestSave();
+    }
+
+    async search(query: string, limit: number): Promise<RetrievalResult[]> {
+        if (!this.isReady()) {
+            throw new Error('The semantic index is empty or disabled. Enable it in the plugin settings.');
+        }
+        const queryVector = await this.embedQuery(query);
+        const results: RetrievalResult[] = [];
+        this.files.forEach((file, path) => {
+            for (const chunk of file.chunks) {
+                results.push({ path, heading: chunk.heading, line: chunk.line, text: chunk.text, score: dot(queryVector, chunk.vector) });
+            }
+        });
+        return results.sort((a, b) => b.score - a.score).slice(0, limit);
+    }
+
+    private requestProcess = debounce(() => this.processQueue(), UPDATE_DELAY_MS, true);
+
+    /**
+     * Embeds queued notes in batches. Stops at the first API error and keeps the rest
+     * queued for the next sync, so a bad key or exhausted quota does not loop.
+     */
+    private processQueue(): Promise<void> {
+        if (this.running) {
+            return this.running;
+        }
+        this.running = (async () => {
+            try {
+                // After a model change, vectors wait for sync() to start the new index
+                while (this.queue.size > 0 && this.isEnabled() && this.model === this.settings.embeddingModel) {
+                    const batch = await this.takeBatch();
+                    const chunks = batch.flatMap(entry => entry.chunks.map(chunk => ({ ...chunk, title: entry.file.basename })));
+                    try {
+                        const vectors = await this.embedDocuments(chunks.map(c => c.text), chunks.map(c => c.title));
+                        let offset = 0;
+                        for (const entry of batch) {
+                            this.files.set(entry.file.path, {
+                                mtime: entry.file.stat.mtime,
+                                chunks: entry.chunks.map((chunk, index) => ({ ...chunk, vector: vectors[offset + index] }))
+                            });
+                            offset += entry.chunks.length;
+                        }
+                        this.lastError = '';
+                    } catch (error) {
+                        batch.forEach(entry => this.queue.add(entry.file.path));
+                        this.lastError = error.message;
+                        console.error('Gemini: Failed to update the embedding index:', error);
+                        break;
+                    } finally {
+                        this.trigger('changed');
+                    }
+                    this.requestSave();
+                }
+            } catch (error) {
+                // Reading a note failed; the notes not indexed yet are queued again by the next sync
+                this.lastError = error.message;
+                console.error('Gemini: Failed to update the embedding index:', error);
+                this.trigger('changed');
+            } finally {
+                this.running = null;
+            }
+        })();
+        return this.running;
+    }
+
+    private async takeBatch(): Promise<{ file: TFile; chunks: NoteChunk[] }[]> {
+        const batch: { file: TFile; chunks: NoteChunk[] }[] = [];
+        let count = 0;
+        for (const path of Array.from(this.queue)) {
+            if (count >= BATCH_SIZE) break;
+            this.queue.delete(path);
+            const file = this.app.vault.getAbstractFileByPath(path);
+            if (!file || !this.isIndexable(file)) {
+                this.files.delete(path);
+                continue;
+            }
+            const chunks = chunkMarkdown(await this.app.vault.cachedRead(file));
+            batch.push({ file, chunks });
+            count += chunks.length;
+        }
+        return batch;
+    }
+
+    private async embedDocuments(texts: string[], titles: string[]): Promise<Float32Array[]> {
+        const model = this.settings.embeddingModel.replace(/^models\//, '');
+        const vectors: Float32Array[] = [];
+        for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+            const requests = texts.slice(i, i + BATCH_SIZE).map((text, j) => ({
+                model: `models/${model}`,
+                content: { parts: [{ text }] },
+                taskType: 'RETRIEVAL_DOCUMENT' as EmbeddingTask,
+                title: titles[i + j],
+                outputDimensionality: EMBEDDING_DIMENSIONS
+            }));
+            const tokens = requests.reduce((sum, request) => sum + estimateTokens(request.content.parts[0].text.length + request.title.length), 0);
+            this.checkBudget(model, tokens);
+            const response = await geminiRequest({
+                url: `https://generativelanguage.googleapis.com/v1beta/models/${model}:batchEmbedContents`,
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json', 'x-goog-api-key': this.settings.apiKey.trim() },
+                body: JSON.stringify({ requests })
+            });
+            const embeddings: any[] = response.json.embeddings || [];
+            if (embeddings.length !== requests.length) {
+                throw new Error(`Expected ${requests.length} embeddings, got ${embeddings.length}.`);
+            }
+            embeddings.forEach(embedding => vectors.push(normalize(embedding.values)));
+            this.recordUsage(model, tokens);
+        }
+        return vectors;
+    }
+
+    private async embedQuery(text: string): Promise<Float32Array> {
+        const model = this.settings.embeddingModel.replace(/^models\//, '');
+        const tokens = estimateTokens(text.length);
+        this.checkBudget(model, tokens);
+        const response = await geminiRequest({
+            url: `https://generativelanguage.googleapis.com/v1beta/models/${model}:embedContent`,
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'x-goog-api-key': this.settings.apiKey.trim() },
+            body: JSON.stringify({
+                content: { parts: [{ text }] },
+                taskType: 'RETRIEVAL_QUERY' as EmbeddingTask,
+                outputDimensionality: EMBEDDING_DIMENSIONS
+            })
+        });
+        this.recordUsage(model, tokens);
+        return normalize(response.json.embedding?.values || []);
+    }
+
+    /**
+     * Refuses a request that would take usage over a budget limit. Indexing then stops
+     * with the error, and the remaining notes stay queued.
+     */
+    private checkBudget(model: string, tokens: number) {
+        const status = getBudgetStatus(this.ledger.getEntries(), this.settings, {
+            timestamp: Date.now(),
+            provider: 'gemini',
+            model: model,
+            purpose: 'embedding',
+            promptTokens: tokens,
+            candidatesTokens: 0,
+            thoughtsTokens: 0,
+            cachedTokens: 0
+        });
+        if (status.exceeded.length > 0) {
+            throw new Error(`Budget reached (${status.exceeded.map(describeBudgetUsage).join(', ')}). Indexing resumes when the limit resets or is raised.`);
+        }
+    }
+
+    // The embeddings API reports no usage, so the input is estimated from its length
+    private recordUsage(model: string, tokens: number) {
+        this.ledger.record({ role: 'model', content: '', usageMetadata: { promptTokenCount: tokens, candidatesTokenCount: 0, totalTokenCount: tokens } }, {
+            provider: 'gemini',
+            model: model,
+            purpose: 'embedding'
+        });
+    }
+
+    private requestSave = debounce(() => this.save(), SAVE_DELAY_MS, true);
+
+    async save(): Promise<void> {
+        if (!this.loaded) return;
+        const files: Record<string, any> = {};
+        this.files.forEach((file, path) => {
+            files[path] = {
+                mtime: file.mtime,
+                chunks: file.chunks.map(chunk => ({
+                    heading: chunk.heading,
+                    line: chunk.line,
+                    text: chunk.text,
+                    vector: arrayBufferToBase64(chunk.vector.buffer as ArrayBuffer)
+                }))
+            };
+        });
+        try {
+            await this.app.vault.adapter.write(this.path, JSON.stringify({ version: INDEX_VERSION, model: this.model, files }));
+        } catch (error) {
+            console.error('Gemini: Failed to save the embedding index:', error);
+        }
+    }
+}
@@ -1,57 +1,40 @@
-import { requestUrl } from "obsidian";
-import { GeminiChatMessage, GeminiPluginSettings } from "./types";
+import { GeminiChatMessage, GeminiPluginSettings, GeminiToolCall, GeminiUsageMetadata } from "./types";
+import { MAX_TOOL_ROUNDS } from "./constants";
+import { VAULT_TOOL_DECLARATIONS } from "./vault-tools";
+import { ChatModelOption, ChatProvider, ChatRequestOptions } from "./chat-provider";
+import { GeminiApiError, geminiFetch, geminiRequest, toGeminiApiError } from "./gemini-request";
+import { ModelCatalog } from "./model-catalog";
 
-export class GeminiApiClient {
+export class GeminiApiClient implements ChatProvider {
+    id = 'gemini' as const;
+    name = 'Gemini';
+    catalog: ModelCatalog;
+
+    constructor(catalog: ModelCatalog) {
+        this.catalog = catalog;
+    }
+
+    async listModels(settings: GeminiPluginSettings): Promise<ChatModelOption[]> {
+        return this.catalog.getModels(settings.apiKey);
+    }
     
     async generateContent(
         history: GeminiChatMessage[], 
         modelName: string, 
         settings: GeminiPluginSettings,
-        signal?: AbortSignal,
-        cachedContentName?: string,
-        enableThinkingOverride?: boolean, // New parameter
-        validFileUris?: Set<string> // New parameter for filtering expired files
+        options: ChatRequestOptions = {}
     ): Promise<GeminiChatMessage> {
-        const { apiKey, thinkingLevel, enableGoogleSearch, enableUrlContext, mediaResolution } = settings;
+        const { signal, cachedContentName, validFileUris, onUpdate, toolExecutor, systemInstruction, generation } = options;
+        const enableThinkingOverride = options.enableThinking;
+        const { apiKey, thinkingLevel, mediaResolution } = settings;
         
-        const isGemini3 = modelName.includes('gemini-3');
-        const apiVersion = isGemini3 ? 'v1alpha' : 'v1beta';
-        const url = `https://generativelanguage.googleapis.com/${apiVersion}/models/${modelName}:generateContent`;
+        const model = this.catalog.getModel(modelName);
+        const apiVersion = model.apiVersion;
+        const method = onUpdate ? 'streamGenerateContent?alt=sse' : 'generateContent';
+        const url = `https://generativelanguage.googleapis.com/${apiVersion}/models/${modelName}:${method}`;
 
-        // Format history for API
-        const contents = history.map(msg => {
-            // Reconstruct parts, ensuring thoughtSignature is included if present
-            // Filter parts based on validFileUris if provided
-            let parts = msg.parts ? [...msg.parts] : [{ text: msg.content }];
-            
-            if (validFileUris) {
-                parts = parts.filter(p => {
-                    // Keep non-file parts (text, etc.)
-                    if (!p.file_data) return true;
-                    // Keep file parts ONLY if their URI is in the valid set
-                    return validFileUris.has(p.file_data.file_uri);
-                });
-                
-                // If a message becomes empty after filtering (e.g. it was only an expired image),
-                // add a placeholder to preserve turn structure (Gemini usually requires non-empty content)
-                if (parts.length === 0) {
-                    parts.push({ text: "[Attached file expired]" });
-                }
-            }
-
-            return {
-                role: msg.role,
-                parts: parts
-            };
-        });
-
-        const tools: any[] = [];
-        if (enableGoogleSearch) {
-            tools.push({ google_search: {} });
-        }
-        if (enableUrlContext) {
-            tools.push({ url_context: {} });
-        }
+        const contents = this.buildContents(history, validFileUris);
+        const tools = this.buildTools(settings, !!toolExecutor);
 
         const body: any = {
             contents: contents,
@@ -69,18 +52,31 @@ export class GeminiApiClient {
             }
         }
 
+        if (generation) {
+            const { safetySettings, ...sampling } = generation;
+            Object.assign(body.generationConfig, sampling);
+            if (safetySettings) {
+                body.safetySettings = Object.entries(safetySettings).map(([category, threshold]) => ({ category, threshold }));
+            }
+        }
+
         if (cachedContentName) {
             body.cachedContent = cachedContentName;
         }
 
+        // With cachedContent, the system instruction must come from the cache itself
+        if (systemInstruction && !cachedContentName) {
+            body.systemInstruction = { parts: [{ text: systemInstruction }] };
+        }
+
         // Thinking Config
-        if (isGemini3) {
+        if (model.thinking === 'level') {
             // Gemini 3: thinking_config with include_thoughts and thinking_level
             body.generationConfig.thinkingConfig = {
                 includeThoughts: true,
                 thinkingLevel: thinkingLevel
             };
-        } else {
+        } else if (model.thinking === 'budget') {
             // Gemini 2.5: Check override first, then settings
             const shouldUseThinking = enableThinkingOverride !== undefined ? enableThinkingOverride : settings.enableThinking;
 
@@ -100,104 +96,392 @@ export class GeminiApiClient {
             body.tools = tools;
         }
 
-        const response = await fetch(url, {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                'x-goog-api-key': apiKey
-            },
-            body: JSON.stringify(body),
-            signal: signal
-        });
+        // Function call loop: run requested tools and send their results back
+        // until the model answers with content instead of further calls.
+        const toolCalls: GeminiToolCall[] = [];
+        const thoughts: string[] = [];
+        const usageTotals: GeminiUsageMetadata = { promptTokenCount: 0, candidatesTokenCount: 0, totalTokenCount: 0, thoughtsTokenCount: 0, cachedContentTokenCount: 0 };
+
+        for (let round = 0; ; round++) {
+            const withSteps = (msg: GeminiChatMessage): GeminiChatMessage => ({
+                ...msg,
+                thought: [...thoughts, msg.thought].filter(Boolean).join('\n\n'),
+                toolCalls: toolCalls.length > 0 ? [...toolCalls] : undefined
+            });
+
+            let message: GeminiChatMessage;
+            try {
+                const response = await geminiFetch(url, {
+                    method: 'POST',
+                    headers: {
+                        'Content-Type': 'application/json',
+                        'x-goog-api-key': apiKey
+                    },
+                    body: JSON.stringify(body),
+                    signal: signal
+                });
+
+                message = onUpdate
+                    ? await this.readStream(response, partial => onUpdate(withSteps(partial)))
+                    : this.parseResponse(await response.json());
+            } catch (error) {
+                // Earlier tool rounds were billed even though this one failed, so pass their usage on to the caller
+                if (round > 0) {
+                    error.usageMetadata = usageTotals;
+                }
+                throw error;
+            }
+
+            if (message.usageMetadata) {
+                usageTotals.promptTokenCount += message.usageMetadata.promptTokenCount || 0;
+                usageTotals.candidatesTokenCount += message.usageMetadata.candidatesTokenCount || 0;
+                usageTotals.totalTokenCount += message.usageMetadata.totalTokenCount || 0;
+                usageTotals.thoughtsTokenCount = (usageTotals.thoughtsTokenCount || 0) + (message.usageMetadata.thoughtsTokenCount || 0);
+                usageTotals.cachedContentTokenCount = (usageTotals.cachedContentTokenCount || 0) + (message.usageMetadata.cachedContentTokenCount || 0);
+            }
+
+            const functionCalls = (message.parts || []).filter((p: any) => p.functionCall);
+            if (!toolExecutor || functionCalls.length === 0 || round >= MAX_TOOL_ROUNDS || signal?.aborted) {
+                const finalMessage = withSteps(message);
+                if (functionCalls.length > 0) {
+                    // Unanswered calls would make the next request invalid, so drop them from history
+                    finalMessage.parts = (finalMessage.parts || []).filter((p: any) => !p.functionCall);
+                    if (finalMessage.parts.length === 0) {
+                        finalMessage.parts.push({ text: finalMessage.content });
+                    }
+                }
+                if (round > 0) {
+                    finalMessage.usageMetadata = usageTotals;
+                }
+                return finalMessage;
+            }
+
+            if (message.thought) thoughts.push(message.thought);
 
-        if (!response.ok) {
-            const errorText = await response.text();
-            console.error('Gemini API Error Body:', errorText);
-            throw new Error(`API Error ${response.status}: ${errorText}`);
+            // Echo the model turn back unchanged so function calls keep their thought signatures
+            body.contents.push({ role: 'model', parts: message.parts });
+
+            const responseParts: any[] = [];
+            for (const part of functionCalls) {
+                const { id, name, args } = part.functionCall;
+                let result: Record<string, any>;
+                try {
+                    result = await toolExecutor(name, args || {});
+                } catch (error) {
+                    result = { error: error.message };
+                }
+                toolCalls.push({ name, args: args || {}, response: result });
+                responseParts.push({ functionResponse: id ? { id, name, response: result } : { name, response: result } });
+            }
+            onUpdate?.(withSteps({ role: 'model', content: '', parts: [] }));
+
+            body.contents.push({ role: 'user', parts: responseParts });
         }
+    }
 
-        const data = await response.json();
-        
-        // Extract parts from response
-        if (data.candidates && data.candidates.length > 0 && data.candidates[0].content) {
-            const candidate = data.candidates[0];
-            const content = candidate.content;
-            const usageMetadata = data.usageMetadata;
-            const groundingMetadata = candidate.groundingMetadata;
-            
-            const contentParts = content.parts.filter((p: any) => !p.thought);
-            const thoughtParts = content.parts.filter((p: any) => p.thought === true);
+    private buildTools(settings: GeminiPluginSettings, withVaultTools: boolean): any[] {
+        const tools: any[] = [];
+        if (settings.enableGoogleSearch) {
+            tools.push({ google_search: {} });
+        }
+        if (settings.enableUrlContext) {
+            tools.push({ url_context: {} });
+        }
+        if (settings.enableCodeExecution) {
+            tools.push({ code_execution: {} });
+        }
+        if (withVaultTools) {
+            tools.push({ functionDeclarations: VAULT_TOOL_DECLARATIONS });
+        }
+        return tools;
+    }
+
+    /**
+     * Formats history for the API, dropping file parts whose upload is no longer valid.
+     */
+    private buildContents(history: GeminiChatMessage[], validFileUris?: Set<string>): any[] {
+        return history.map(msg => {
+            // Reconstruct parts, ensuring thoughtSignature is included if present
+            // Filter parts based on validFileUris if provided
+            let parts = msg.parts && msg.parts.length > 0 ? [...msg.parts] : [{ text: msg.content }];
             
-            // Extract Thought Text
-            let thoughtText = "";
-            if (thoughtParts.length > 0) {
-                thoughtText = thoughtParts.map((p: any) => p.text).join('\n\n');
-            }
-
-            // Extract Response Text
-            let responseContent = "";
-            if (contentParts.length > 0) {
-                responseContent = contentParts.map((p: any) => p.text).join('\n\n');
-            } else if (thoughtParts.length > 0) {
-                 responseContent = "(Thinking process only, no final response generated)";
-            } else {
-                responseContent = "(No response content generated)";
+            if (validFileUris) {
+                parts = parts.filter(p => {
+                    // Keep non-file parts (text, etc.)
+                    if (!p.file_data) return true;
+                    // Keep file parts ONLY if their URI is in the valid set
+                    return validFileUris.has(p.file_data.file_uri);
+                });
+                
+                // If a message becomes empty after filtering (e.g. it was only an expired image),
+                // add a placeholder to preserve turn structure (Gemini usually requires non-empty content)
+                if (parts.length === 0) {
+                    parts.push({ text: "[Attached file expired]" });
+                }
             }
 
-            // Extract Thought Signature
-            let thoughtSignature: string | undefined;
-            for (const part of content.parts) {
-                if (part.thoughtSignature) {
-                    thoughtSignature = part.thoughtSignature;
-                    break; 
+            return {
+                role: msg.role,
+                parts: parts
+            };
+        });
+    }
+
+    /**
+     * Reads an SSE response from streamGenerateContent, merging the chunks into a single
+     * response object so the final message matches what generateContent would return.
+     * If the stream is aborted after some content arrived, the partial message is returned.
+     */
+    private async readStream(response: Response, onUpdate: (partial: GeminiChatMessage) => void): Promise<GeminiChatMessage> {
+        if (!response.body) {
+            throw new Error('Streaming is not supported: response has no body.');
+        }
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        const merged: any = { candidates: [{ content: { role: 'model', parts: [] } }] };
+        let buffer = "";
+
+        try {
+            for (;;) {
+                const { done, value } = await reader.read();
+                if (done) break;
+
+                buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+
+                let boundary = buffer.indexOf('\n\n');
+                while (boundary !== -1) {
+                    const event = buffer.slice(0, boundary);
+                    buffer = buffer.slice(boundary + 2);
+                    this.mergeStreamEvent(merged, event);
+                    boundary = buffer.indexOf('\n\n');
                 }
+
+                onUpdate(this.parseResponse(merged));
             }
 
-            // Add citations if grounding metadata exists
-            if (groundingMetadata) {
-                 responseContent = this.addCitations(responseContent, groundingMetadata);
+            // Flush a trailing event without a terminating blank line
+            if (buffer.trim()) {
+                this.mergeStreamEvent(merged, buffer);
             }
-            
+        } catch (error) {
+            if (error.name === 'AbortError' && merged.candidates[0].content.parts.length > 0) {
+                return this.parseResponse(merged);
+            }
+            if (error.name !== 'AbortError' && !(error instanceof GeminiApiError)) {
+                throw new GeminiApiError('network', `The response stream was interrupted (${error.message}).`, undefined, String(error));
+            }
+            throw error;
+        }
+
+        return this.parseResponse(merged);
+    }
+
+    private mergeStreamEvent(merged: any, event: string) {
+        const data = event
+            .split('\n')
+            .filter(line => line.startsWith('data:'))
+            .map(line => line.slice(5).trim())
+            .join('');
+        if (!data) return;
+
+        const chunk = JSON.parse(data);
+        if (chunk.error) {
+            throw toGeminiApiError(chunk.error.code || 500, JSON.stringify(chunk));
+        }
+
+        if (chunk.usageMetadata) merged.usageMetadata = chunk.usageMetadata;
+        if (chunk.promptFeedback) merged.promptFeedback = chunk.promptFeedback;
+
+        // With candidateCount > 1, chunks interleave candidates; only the first is kept
+        const candidate = chunk.candidates?.find((c: any) => (c.index ?? 0) === 0);
+        if (!candidate) return;
+
+        const target = merged.candidates[0];
+        if (candidate.groundingMetadata) target.groundingMetadata = candidate.groundingMetadata;
+        if (candidate.finishReason) target.finishReason = candidate.finishReason;
+        if (candidate.finishMessage) target.finishMessage = candidate.finishMessage;
+        if (candidate.safetyRatings) target.safetyRatings = candidate.safetyRatings;
+
+        const parts: any[] = target.content.parts;
+        for (const part of candidate.content?.parts || []) {
+            const last = parts[parts.length - 1];
+            // Consecutive text chunks of the same kind are joined, as in a non-streamed response.
+            // A part carrying a signature closes its run so the signature stays at its position.
+            const canMerge = last && typeof last.text === 'string' && typeof part.text === 'string'
+                && !!last.thought === !!part.thought && !last.thoughtSignature;
+            if (canMerge) {
+                last.text += part.text;
+                if (part.thoughtSignature) last.thoughtSignature = part.thoughtSignature;
+            } else {
+                parts.push({ ...part });
+            }
+        }
+    }
+
+    private parseResponse(data: any): GeminiChatMessage {
+        const candidate = data.candidates?.[0];
+        const promptFeedback = data.promptFeedback;
+        const usageMetadata = data.usageMetadata;
+
+        // Without candidates the prompt itself was blocked (or nothing was generated).
+        // A merged stream always has an empty candidate, so check for content as well.
+        if (!candidate || (promptFeedback?.blockReason && !candidate.content?.parts?.length)) {
+            const blockReason: string | undefined = promptFeedback?.blockReason;
+            const content = blockReason
+                ? `(The prompt was blocked by Gemini: ${blockReason})`
+                : "(No response content generated)";
             return {
                 role: 'model',
-                content: responseContent,
-                parts: content.parts, 
-                thought: thoughtText,
-                thoughtSignature: thoughtSignature,
+                content: content,
+                parts: [],
                 usageMetadata: usageMetadata,
-                groundingMetadata: groundingMetadata
+                blockReason: blockReason,
+                safetyRatings: promptFeedback?.safetyRatings
             };
+        }
+
+        // Extract parts from response. Candidates stopped for safety may have no content at all.
+        const groundingMetadata = candidate.groundingMetadata;
+        const finishReason: string | undefined = candidate.finishReason;
+        const allParts: any[] = candidate.content?.parts || [];
+        
+        const contentParts = allParts.filter((p: any) => !p.thought);
+        const thoughtParts = allParts.filter((p: any) => p.thought === true);
+        
+        // Extract Thought Text
+        let thoughtText = "";
+        if (thoughtParts.length > 0) {
+            thoughtText = thoughtParts.map((p: any) => p.text).join('\n\n');
+        }
+
+        // Extract Response Text. Code execution steps become fenced blocks in place;
+        // generated images are saved and embedded by the view.
+        let responseContent = "";
+        const renderedParts = contentParts
+            .map((p: any) => this.formatContentPart(p))
+            .filter((text: string | null): text is string => text !== null);
+        const hasImages = contentParts.some((p: any) => this.isGeneratedImage(p));
+        if (renderedParts.length > 0) {
+            responseContent = renderedParts.join('\n\n');
+        } else if (hasImages) {
+            responseContent = "";
+        } else if (finishReason && finishReason !== 'STOP') {
+            responseContent = `(No response: generation stopped with ${finishReason})`;
+        } else if (thoughtParts.length > 0) {
+             responseContent = "(Thinking process only, no final response generated)";
         } else {
-            return {
-                role: 'model',
-                content: "(No response content generated)",
-                parts: [{ text: "(No response content generated)" }]
-            };
+            responseContent = "(No response content generated)";
+        }
+
+        // Extract Thought Signature
+        let thoughtSignature: string | undefined;
+        for (const part of allParts) {
+            if (part.thoughtSignature) {
+                thoughtSignature = part.thoughtSignature;
+                break; 
+            }
+        }
+
+        // Add citations if grounding metadata exists
+        if (groundingMetadata) {
+             responseContent = this.addCitations(responseContent, groundingMetadata);
         }
+        
+        return {
+            role: 'model',
+            content: responseContent,
+            parts: allParts, 
+            thought: thoughtText,
+            thoughtSignature: thoughtSignature,
+            usageMetadata: usageMetadata,
+            groundingMetadata: groundingMetadata,
+            finishReason: finishReason,
+            finishMessage: candidate.finishMessage,
+            safetyRatings: candidate.safetyRatings
+        };
+    }
+
+    /**
+     * Markdown for a single non-thought part, or null for parts without displayable text.
+     */
+    private formatContentPart(part: any): string | null {
+        if (typeof part.text === 'string') {
+            return part.text;
+        }
+        if (part.executableCode) {
+            const language = (part.executableCode.language || 'python').toLowerCase();
+            const code = part.executableCode.code || '';
+            return `\`\`\`${language}\n${code.replace(/\n$/, '')}\n\`\`\``;
+        }
+        if (part.codeExecutionResult) {
+            const { outcome, output } = part.codeExecutionResult;
+            const label = outcome && outcome !== 'OUTCOME_OK' ? `**Execution ${outcome === 'OUTCOME_DEADLINE_EXCEEDED' ? 'timed out' : 'failed'}:**\n` : '';
+            return `${label}\`\`\`text\n${(output || '(no output)').replace(/\n$/, '')}\n\`\`\``;
+        }
+        return null;
     }
 
-    async countTokens(contents: any[], modelName: string, apiKey: string): Promise<{ totalTokens: number }> {
+    isGeneratedImage(part: any): boolean {
+        const mimeType: string | undefined = part.inlineData?.mimeType || part.inline_data?.mime_type;
+        return !part.thought && !!mimeType && mimeType.startsWith('image/');
+    }
+
+    async countTokens(
+        contents: any[],
+        modelName: string,
+        apiKey: string,
+        request: { systemInstruction?: string | null; tools?: any[]; cachedContentName?: string } = {}
+    ): Promise<{ totalTokens: number }> {
         // Use v1beta for countTokens as it's stable there
         const url = `https://generativelanguage.googleapis.com/v1beta/models/${modelName}:countTokens`;
 
-        const response = await requestUrl({
+        // A system instruction, tools and cached content can only be counted as part of a full generateContentRequest
+        const { systemInstruction, tools, cachedContentName } = request;
+        let body: any = { contents: contents };
+        if (systemInstruction || (tools && tools.length > 0) || cachedContentName) {
+            const generateContentRequest: any = { model: `models/${modelName}`, contents: contents };
+            // As in generateContent, a cache brings its own system instruction and tools
+            if (cachedContentName) {
+                generateContentRequest.cachedContent = cachedContentName;
+            } else {
+                if (systemInstruction) generateContentRequest.systemInstruction = { parts: [{ text: systemInstruction }] };
+                if (tools && tools.length > 0) generateContentRequest.tools = tools;
+            }
+            body = { generateContentRequest };
+        }
+
+        const response = await geminiRequest({
             url: url,
             method: 'POST',
             headers: {
                 'Content-Type': 'application/json',
                 'x-goog-api-key': apiKey
             },
-            body: JSON.stringify({ contents: contents }),
-            throw: false
+            body: JSON.stringify(body)
         });
 
-        if (response.status >= 400) {
-             throw new Error(`CountTokens API Error ${response.status}: ${response.text}`);
-        }
-
         return response.json;
     }
 
+    /**
+     * Counts the input tokens of a chat request, formatted exactly as generateContent would send it.
+     */
+    async countRequestTokens(
+        history: GeminiChatMessage[],
+        modelName: string,
+        settings: GeminiPluginSettings,
+        options: { systemInstruction?: string | null; validFileUris?: Set<string>; cachedContentName?: string; vaultTools?: boolean } = {}
+    ): Promise<number> {
+        const contents = this.buildContents(history, options.validFileUris);
+        const result = await this.countTokens(contents, modelName, settings.apiKey, {
+            systemInstruction: options.systemInstruction,
+            tools: this.buildTools(settings, !!options.vaultTools),
+            cachedContentName: options.cachedContentName
+        });
+        return result.totalTokens || 0;
+    }
+
     private addCitations(text: string, groundingMetadata: any): string {
         if (!groundingMetadata || !groundingMetadata.groundingSupports || !groundingMetadata.groundingChunks) {
             return text;
@@ -1,4 +1,6 @@
-import { App, TFile, requestUrl } from "obsidian";
+import { App, TFile } from "obsidian";
+import { VAULT_TOOL_DECLARATIONS } from "./vault-tools";
+import { GeminiApiError, geminiRequest, getHeader } from "./gemini-request";
 
 interface CachedFile {
     uri: string;
@@ -25,16 +27,6 @@ export class GeminiFileManager {
         this.app = app;
     }
 
-    private getHeader(headers: Record<string, string>, key: string): string | undefined {
-        const lowerKey = key.toLowerCase();
-        for (const k in headers) {
-            if (k.toLowerCase() === lowerKey) {
-                return headers[k];
-            }
-        }
-        return undefined;
-    }
-
     async uploadFile(file: TFile, apiKey: string): Promise<string> {
         const cleanApiKey = apiKey.trim();
         
@@ -75,7 +67,7 @@ export class GeminiFileManager {
         const initialUrl = `https://generativelanguage.googleapis.com/upload/v1beta/files`;
         
         try {
-            const initialResponse = await requestUrl({
+            const initialResponse = await geminiRequest({
                 url: initialUrl,
                 method: 'POST',
                 headers: {
@@ -89,11 +81,7 @@ export class GeminiFileManager {
                 body: JSON.stringify({ file: { display_name: displayName } })
             });
 
-            if (initialResponse.status >= 400) {
-                throw new Error(`Initial upload failed: ${initialResponse.status} ${initialResponse.text}`);
-            }
-
-            let uploadUrl = this.getHeader(initialResponse.headers, 'x-goog-upload-url');
+            let uploadUrl = getHeader(initialResponse.headers, 'x-goog-upload-url');
             if (!uploadUrl) {
                 throw new Error('Failed to get upload URL from response headers');
             }
@@ -102,7 +90,7 @@ export class GeminiFileManager {
             console.log(`Gemini: Uploading ${numBytes} bytes to ${uploadUrl}`);
 
             // 2. Upload Actual Bytes
-            const uploadResponse = await requestUrl({
+            const uploadResponse = await geminiRequest({
                 url: uploadUrl,
                 method: 'POST', 
                 headers: {
@@ -113,10 +101,6 @@ export class GeminiFileManager {
                 body: content
             });
 
-            if (uploadResponse.status >= 400) {
-                 throw new Error(`Bytes upload failed: ${uploadResponse.status} ${uploadResponse.text}`);
-            }
-
             const fileInfo = uploadResponse.json;
             const fileUri = fileInfo.file.uri;
             const fileName = fileInfo.file.name;
@@ -151,11 +135,13 @@ export class GeminiFileManager {
         mimeType: string, 
         modelName: string, 
         apiKey: string,
-        settings: { enableGoogleSearch: boolean, enableUrlContext: boolean } // Add settings
+        settings: { enableGoogleSearch: boolean, enableUrlContext: boolean, enableCodeExecution: boolean, enableVaultTools: boolean }, // Add settings
+        systemInstruction?: string | null // Must match the instruction of requests using the cache
     ): Promise<string | null> {
         // Cache key should now include tool usage as it changes the cache definition
-        const toolKey = `${settings.enableGoogleSearch ? 'G' : ''}${settings.enableUrlContext ? 'U' : ''}`;
-        const cacheKey = `${file.path}::${modelName}::${toolKey}`;
+        const toolKey = `${settings.enableGoogleSearch ? 'G' : ''}${settings.enableUrlContext ? 'U' : ''}${settings.enableCodeExecution ? 'C' : ''}${settings.enableVaultTools ? 'V' : ''}`;
+        const instructionKey = systemInstruction ? this.hashString(systemInstruction) : '';
+        const cacheKey = `${file.path}::${modelName}::${toolKey}::${instructionKey}`;
         const cleanApiKey = apiKey.trim();
         
         const cached = this.explicitCache.get(cacheKey);
@@ -189,6 +175,12 @@ export class GeminiFileManager {
         if (settings.enableUrlContext) {
             tools.push({ url_context: {} });
         }
+        if (settings.enableCodeExecution) {
+            tools.push({ code_execution: {} });
+        }
+        if (settings.enableVaultTools) {
+            tools.push({ functionDeclarations: VAULT_TOOL_DECLARATIONS });
+        }
 
         const body: any = {
             model: fullModelName,
@@ -208,29 +200,21 @@ export class GeminiFileManager {
             body.tools = tools;
         }
 
+        if (systemInstruction) {
+            body.systemInstruction = { parts: [{ text: systemInstruction }] };
+        }
+
         try {
-            const response = await requestUrl({
+            const response = await geminiRequest({
                 url: url,
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
                     'x-goog-api-key': cleanApiKey
                 },
-                body: JSON.stringify(body),
-                throw: false // Handle errors manually
+                body: JSON.stringify(body)
             });
 
-            if (response.status >= 400) {
-                const errorText = response.text;
-                // If error is related to token count (InvalidArgument), log and return null
-                // We assume 400 with "InvalidArgument" usually means < min tokens
-                if (response.status === 400 && errorText.includes("InvalidArgument")) {
-                    console.warn(`Gemini: Failed to cache ${file.basename} (likely too small): ${errorText}`);
-                    return null;
-                }
-                throw new Error(`Cache creation failed ${response.status}: ${errorText}`);
-            }
-
             const data = response.json;
             const cacheName = data.name;
             const expireTime = data.expireTime;
@@ -248,11 +232,26 @@ export class GeminiFileManager {
             return cacheName;
 
         } catch (error) {
+            // If error is related to token count (InvalidArgument), log and return null
+            // We assume 400 with "InvalidArgument" usually means < min tokens
+            if (error instanceof GeminiApiError && error.status === 400 && error.details?.includes("InvalidArgument")) {
+                console.warn(`Gemini: Failed to cache ${file.basename} (likely too small): ${error.details}`);
+                return null;
+            }
             console.error("Explicit caching error:", error);
             return null; // Fallback to standard file usage
         }
     }
 
+    private hashString(value: string): string {
+        // djb2, only used to tell instructions apart in cache keys
+        let hash = 5381;
+        for (let i = 0; i < value.length; i++) {
+            hash = ((hash << 5) + hash + value.charCodeAt(i)) | 0;
+        }
+        return (hash >>> 0).toString(36);
+    }
+
     async waitForProcessing(fileName: string, apiKey: string): Promise<void> {
         const url = `https://generativelanguage.googleapis.com/v1beta/${fileName}`;
         let state = 'PROCESSING';
@@ -260,15 +259,12 @@ export class GeminiFileManager {
         // Poll for up to 60 seconds (video processing can take time)
         for (let i = 0; i < 12; i++) {
             try {
-                const response = await requestUrl({
+                // Transient errors are retried inside geminiRequest
+                const response = await geminiRequest({
                     url: url,
                     method: 'GET',
                     headers: { 'x-goog-api-key': apiKey }
                 });
-                
-                if (response.status >= 400) {
-                    throw new Error(`Failed to check file state: ${response.status}`);
-                }
 
                 const data = response.json;
                 state = data.state || 'PROCESSING'; // Default to processing if not set
@@ -278,16 +274,17 @@ export class GeminiFileManager {
                 if (state === 'ACTIVE') {
                     return; // Ready!
                 } else if (state === 'FAILED') {
-                    throw new Error(`File processing failed: ${data.error?.message || 'Unknown error'}`);
+                    throw new GeminiApiError('invalid_request', `File processing failed: ${data.error?.message || 'Unknown error'}`);
                 }
 
                 // Wait 5 seconds before next check
                 await new Promise(resolve => setTimeout(resolve, 5000));
             } catch (e) {
+                // Failed processing and non-retryable API errors (e.g. invalid key) are final
+                if (e instanceof GeminiApiError && !e.retryable) {
+                    throw e;
+                }
                 console.warn(`Error checking file state (attempt ${i+1}):`, e);
-                // Continue retrying unless it's a fatal error? 
-                // If 404 maybe wait? If 403? 
-                // For now, just wait and retry.
                 await new Promise(resolve => setTimeout(resolve, 5000));
             }
         }
@@ -351,17 +348,12 @@ export class GeminiFileManager {
             // Request max page size to minimize pagination handling for now (max is 100)
             const url = `https://generativelanguage.googleapis.com/v1beta/files?pageSize=100`;
             
-            const response = await requestUrl({
+            const response = await geminiRequest({
                 url: url,
                 method: 'GET',
                 headers: { 'x-goog-api-key': cleanApiKey }
             });
 
-            if (response.status >= 400) {
-                console.warn(`Gemini: Failed to list files for cache validation: ${response.status}`);
-                return remoteUris;
-            }
-
             const data = response.json;
             const remoteFiles = data.files || [];
             
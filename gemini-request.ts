@@ -0,0 +1,224 @@
+import { RequestUrlParam, RequestUrlResponse, requestUrl } from "obsidian";
+
+export type GeminiErrorKind =
+    | 'quota'
+    | 'invalid_key'
+    | 'safety'
+    | 'model_not_found'
+    | 'network'
+    | 'server'
+    | 'invalid_request'
+    | 'unknown';
+
+/**
+ * A failed Gemini API call, classified so the UI can show a readable message.
+ * `details` keeps the raw error body for the console.
+ */
+export class GeminiApiError extends Error {
+    kind: GeminiErrorKind;
+    status?: number;
+    retryable: boolean;
+    details?: string;
+
+    constructor(kind: GeminiErrorKind, message: string, status?: number, details?: string) {
+        super(message);
+        this.name = 'GeminiApiError';
+        this.kind = kind;
+        this.status = status;
+        this.details = details;
+        this.retryable = kind === 'quota' || kind === 'server' || kind === 'network';
+    }
+}
+
+export interface RetryOptions {
+    signal?: AbortSignal;
+    maxRetries?: number;
+}
+
+const DEFAULT_MAX_RETRIES = 3;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30000;
+// A server-requested wait longer than this is treated as a hard quota limit, not a blip
+const MAX_HONORED_RETRY_DELAY_MS = 60000;
+
+/**
+ * Turns an HTTP error response from the Gemini API into a typed error.
+ */
+export function toGeminiApiError(status: number, bodyText: string, retryDelayMs?: number): GeminiApiError {
+    let apiMessage = bodyText;
+    let apiStatus = '';
+    let reasons: string[] = [];
+    try {
+        const body = JSON.parse(bodyText);
+        if (body?.error) {
+            apiMessage = body.error.message || bodyText;
+            apiStatus = body.error.status || '';
+            reasons = (body.error.details || []).map((d: any) => d.reason).filter(Boolean);
+        }
+    } catch (e) {
+        // Not JSON, keep raw text
+    }
+
+    if (status === 429 || apiStatus === 'RESOURCE_EXHAUSTED') {
+        const wait = retryDelayMs !== undefined ? ` Try again in ${Math.ceil(retryDelayMs / 1000)}s.` : '';
+        return new GeminiApiError('quota', `Rate limit or quota exceeded for this API key.${wait}`, status, bodyText);
+    }
+    if (reasons.includes('API_KEY_INVALID') || /API key (not valid|expired)/i.test(apiMessage) || status === 401) {
+        return new GeminiApiError('invalid_key', 'The Gemini API key was rejected. Check it in the plugin settings.', status, bodyText);
+    }
+    if (status === 403) {
+        return new GeminiApiError('invalid_key', `This API key is not allowed to perform the request: ${apiMessage}`, status, bodyText);
+    }
+    if (status === 404) {
+        if (/models\//.test(apiMessage)) {
+            return new GeminiApiError('model_not_found', `Model not found or not available for this API key: ${apiMessage}`, status, bodyText);
+        }
+        return new GeminiApiError('invalid_request', `Not found: ${apiMessage}`, status, bodyText);
+    }
+    if (/safety|blocked/i.test(apiMessage)) {
+        return new GeminiApiError('safety', `Blocked by safety filters: ${apiMessage}`, status, bodyText);
+    }
+    if (status >= 500) {
+        return new GeminiApiError('server', `Gemini is temporarily unavailable (${status}). Please retry in a moment.`, status, bodyText);
+    }
+    if (status >= 400) {
+        return new GeminiApiError('invalid_request', apiMessage, status, bodyText);
+    }
+    return new GeminiApiError('unknown', `Unexpected response ${status}: ${apiMessage}`, status, bodyText);
+}
+
+/**
+ * Reads the wait time the server asked for, from the `Retry-After` header
+ * or the `google.rpc.RetryInfo` entry of the error details.
+ */
+export function getRetryDelayMs(bodyText: string, retryAfterHeader?: string | null): number | undefined {
+    if (retryAfterHeader) {
+        const seconds = Number(retryAfterHeader);
+        if (!isNaN(seconds)) {
+            return seconds * 1000;
+        }
+        const date = Date.parse(retryAfterHeader);
+        if (!isNaN(date)) {
+            return Math.max(0, date - Date.now());
+        }
+    }
+
+    try {
+        const details: any[] = JSON.parse(bodyText)?.error?.details || [];
+        const retryInfo = details.find(d => typeof d['@type'] === 'string' && d['@type'].endsWith('google.rpc.RetryInfo'));
+        const match = typeof retryInfo?.retryDelay === 'string' ? retryInfo.retryDelay.match(/^([\d.]+)s$/) : null;
+        if (match) {
+            return parseFloat(match[1]) * 1000;
+        }
+    } catch (e) {
+        // No structured details
+    }
+    return undefined;
+}
+
+function backoffDelay(attempt: number): number {
+    const exponential = BASE_DELAY_MS * Math.pow(2, attempt);
+    const jitter = Math.random() * BASE_DELAY_MS;
+    return Math.min(MAX_DELAY_MS, exponential + jitter);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new DOMException('Aborted', 'AbortError'));
+            return;
+        }
+        const timer = window.setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        const onAbort = () => {
+            window.clearTimeout(timer);
+            reject(new DOMException('Aborted', 'AbortError'));
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * Runs `attempt` until it succeeds, retrying retryable failures with exponential
+ * backoff. A server-provided retry delay is used instead of the backoff when present.
+ */
+async function withRetry<T>(
+    attempt: () => Promise<{ result?: T; status: number; text: string; retryAfter?: string | null }>,
+    options: RetryOptions
+): Promise<T> {
+    const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+
+    for (let attemptIndex = 0; ; attemptIndex++) {
+        let error: GeminiApiError;
+        let serverDelay: number | undefined;
+
+        try {
+            const outcome = await attempt();
+            if (outcome.status < 400 && outcome.result !== undefined) {
+                return outcome.result;
+            }
+            serverDelay = getRetryDelayMs(outcome.text, outcome.retryAfter);
+            error = toGeminiApiError(outcome.status, outcome.text, serverDelay);
+        } catch (e) {
+            if (e.name === 'AbortError' || e instanceof GeminiApiError) {
+                throw e;
+            }
+            error = new GeminiApiError('network', `Could not reach the Gemini API (${e.message}). Check your internet connection.`, undefined, String(e));
+        }
+
+        const tooLong = serverDelay !== undefined && serverDelay > MAX_HONORED_RETRY_DELAY_MS;
+        if (!error.retryable || tooLong || attemptIndex >= maxRetries) {
+            console.error('Gemini API Error:', error.status, error.details);
+            throw error;
+        }
+
+        const delay = serverDelay ?? backoffDelay(attemptIndex);
+        console.warn(`Gemini: ${error.message} Retrying in ${Math.round(delay)}ms (attempt ${attemptIndex + 1}/${maxRetries})`);
+        await sleep(delay, options.signal);
+    }
+}
+
+/**
+ * `requestUrl` with retries and typed errors. Never throws on HTTP status itself.
+ */
+export async function geminiRequest(params: RequestUrlParam, options: RetryOptions = {}): Promise<RequestUrlResponse> {
+    return withRetry(async () => {
+        const response = await requestUrl({ ...params, throw: false });
+        return {
+            result: response,
+            status: response.status,
+            text: response.status >= 400 ? response.text : '',
+            retryAfter: response.status >= 400 ? getHeader(response.headers, 'retry-after') : undefined
+        };
+    }, options);
+}
+
+/**
+ * `fetch` with retries and typed errors, for calls that need abort support or a
+ * streamed body. Only resolves with successful responses.
+ */
+export async function geminiFetch(url: string, init: RequestInit, options: RetryOptions = {}): Promise<Response> {
+    return withRetry(async () => {
+        const response = await fetch(url, init);
+        if (response.ok) {
+            return { result: response, status: response.status, text: '' };
+        }
+        return {
+            status: response.status,
+            text: await response.text(),
+            retryAfter: response.headers.get('retry-after')
+        };
+    }, { signal: init.signal || undefined, ...options });
+}
+
+export function getHeader(headers: Record<string, string>, key: string): string | undefined {
+    const lowerKey = key.toLowerCase();
+    for (const k in headers) {
+        if (k.toLowerCase() === lowerKey) {
+            return headers[k];
+        }
+    }
+    return undefined;
+}
@@ -0,0 +1,181 @@
+import { App, Modal, Setting } from "obsidian";
+import { HARM_BLOCK_THRESHOLDS, HARM_CATEGORIES } from "./constants";
+import { GenerationParameters, HarmBlockThreshold } from "./types";
+
+/**
+ * Merges per-chat overrides over the settings defaults. Safety thresholds
+ * are merged per category. Returns only the fields that are set.
+ */
+export function resolveGenerationParameters(defaults: GenerationParameters, overrides: GenerationParameters): GenerationParameters {
+    const result: GenerationParameters = { ...defaults };
+    const assign = <K extends keyof GenerationParameters>(key: K) => {
+        result[key] = overrides[key];
+    };
+    for (const key of Object.keys(overrides) as (keyof GenerationParameters)[]) {
+        if (key !== 'safetySettings' && overrides[key] !== undefined) {
+            assign(key);
+        }
+    }
+
+    const safetySettings = { ...defaults.safetySettings, ...overrides.safetySettings };
+    if (Object.keys(safetySettings).length > 0) {
+        result.safetySettings = safetySettings;
+    } else {
+        delete result.safetySettings;
+    }
+    if (result.stopSequences && result.stopSequences.length === 0) {
+        delete result.stopSequences;
+    }
+    return result;
+}
+
+export function hasGenerationParameters(params: GenerationParameters | undefined): boolean {
+    return !!params && Object.values(params).some(value => value !== undefined);
+}
+
+/**
+ * Short one-line summary, e.g. "temp 0.7 · topP 0.9 · max 2048 tokens".
+ */
+export function describeGenerationParameters(params: GenerationParameters): string {
+    const items: string[] = [];
+    if (params.temperature !== undefined) items.push(`temp ${params.temperature}`);
+    if (params.topP !== undefined) items.push(`topP ${params.topP}`);
+    if (params.topK !== undefined) items.push(`topK ${params.topK}`);
+    if (params.maxOutputTokens !== undefined) items.push(`max ${params.maxOutputTokens} tokens`);
+    if (params.candidateCount !== undefined) items.push(`${params.candidateCount} candidates`);
+    if (params.stopSequences && params.stopSequences.length > 0) {
+        items.push(`stop ${params.stopSequences.map(seq => JSON.stringify(seq)).join(', ')}`);
+    }
+    if (params.safetySettings) {
+        for (const [category, threshold] of Object.entries(params.safetySettings)) {
+            const name = HARM_CATEGORIES.find(c => c.id === category)?.name ?? category;
+            items.push(`${name}: ${threshold}`);
+        }
+    }
+    return items.join(' · ');
+}
+
+function parseNumber(value: string, integer: boolean): number | undefined {
+    if (!value.trim()) return undefined;
+    const parsed = integer ? parseInt(value, 10) : parseFloat(value);
+    return isNaN(parsed) ? undefined : parsed;
+}
+
+/**
+ * Renders inputs for every generation parameter, editing `params` in place.
+ * Empty inputs leave the field unset; `fallback` values are shown as placeholders.
+ */
+export function renderGenerationControls(
+    containerEl: HTMLElement,
+    params: GenerationParameters,
+    onChange: () => void,
+    fallback: GenerationParameters = {}
+) {
+    const numberSetting = (
+        key: 'temperature' | 'topP' | 'topK' | 'maxOutputTokens' | 'candidateCount',
+        name: string,
+        desc: string,
+        integer: boolean,
+        modelDefault: string
+    ) => {
+        new Setting(containerEl)
+            .setName(name)
+            .setDesc(desc)
+            .addText(text => text
+                .setPlaceholder(fallback[key] !== undefined ? String(fallback[key]) : modelDefault)
+                .setValue(params[key] !== undefined ? String(params[key]) : '')
+                .onChange(value => {
+                    params[key] = parseNumber(value, integer);
+                    onChange();
+                }));
+    };
+
+    numberSetting('temperature', 'Temperature', 'Randomness of the output (0–2). Lower is more focused.', false, 'Model default');
+    numberSetting('topP', 'Top P', 'Nucleus sampling: cumulative probability of tokens considered (0–1).', false, 'Model default');
+    numberSetting('topK', 'Top K', 'Number of most likely tokens considered at each step.', true, 'Model default');
+    numberSetting('maxOutputTokens', 'Max Output Tokens', 'Upper limit on the length of each reply, including thinking tokens.', true, 'Model default');
+    numberSetting('candidateCount', 'Candidate Count', 'Number of candidates to generate (Gemini only). Only the first is shown.', true, '1');
+
+    new Setting(containerEl)
+        .setName('Stop Sequences')
+        .setDesc('One per line. Generation stops when any of them is produced (max 5).')
+        .addTextArea(text => text
+            .setPlaceholder(fallback.stopSequences?.join('\n') ?? '')
+            .setValue(params.stopSequences?.join('\n') ?? '')
+            .onChange(value => {
+                const sequences = value.split('\n').filter(seq => seq.length > 0).slice(0, 5);
+                params.stopSequences = sequences.length > 0 ? sequences : undefined;
+                onChange();
+            }));
+
+    containerEl.createEl('h4', { text: 'Safety Settings (Gemini)' });
+    for (const category of HARM_CATEGORIES) {
+        const fallbackThreshold = fallback.safetySettings?.[category.id];
+        const fallbackName = HARM_BLOCK_THRESHOLDS.find(t => t.id === fallbackThreshold)?.name;
+        new Setting(containerEl)
+            .setName(category.name)
+            .addDropdown(dropdown => {
+                dropdown.addOption('', fallbackName ? `Default (${fallbackName})` : 'Model default');
+                HARM_BLOCK_THRESHOLDS.forEach(t => dropdown.addOption(t.id, t.name));
+                dropdown
+                    .setValue(params.safetySettings?.[category.id] ?? '')
+                    .onChange(value => {
+                        const safetySettings = { ...params.safetySettings };
+                        if (value) {
+                            safetySettings[category.id] = value as HarmBlockThreshold;
+                        } else {
+                            delete safetySettings[category.id];
+                        }
+                        params.safetySettings = Object.keys(safetySettings).length > 0 ? safetySettings : undefined;
+                        onChange();
+                    });
+            });
+    }
+}
+
+/**
+ * Per-chat override panel. Changes apply to the next replies of the current chat only.
+ */
+export class GenerationSettingsModal extends Modal {
+    private overrides: GenerationParameters;
+    private defaults: GenerationParameters;
+    private onSave: (overrides: GenerationParameters) => void;
+
+    constructor(app: App, overrides: GenerationParameters, defaults: GenerationParameters, onSave: (overrides: GenerationParameters) => void) {
+        super(app);
+        this.overrides = { ...overrides, safetySettings: overrides.safetySettings ? { ...overrides.safetySettings } : undefined };
+        this.defaults = defaults;
+        this.onSave = onSave;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl('h2', { text: 'Generation Settings for this Chat' });
+        contentEl.createEl('p', {
+            text: 'Leave a field empty to use the default from the plugin settings.',
+            cls: 'setting-item-description'
+        });
+
+        renderGenerationControls(contentEl, this.overrides, () => {}, this.defaults);
+
+        new Setting(contentEl)
+            .addButton(btn => btn
+                .setButtonText('Reset to defaults')
+                .onClick(() => {
+                    this.onSave({});
+                    this.close();
+                }))
+            .addButton(btn => btn
+                .setButtonText('Save')
+                .setCta()
+                .onClick(() => {
+                    this.onSave(resolveGenerationParameters({}, this.overrides));
+                    this.close();
+                }));
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
@@ -0,0 +1,293 @@
+import { App, Events, TAbstractFile, TFile, debounce, parseYaml } from "obsidian";
+import { chunkMarkdown, frontmatterEnd, isIndexableNote } from "./note-chunker";
+import { GeminiPluginSettings, RetrievalResult, RetrievalSource } from "./types";
+
+// BM25 parameters (common defaults)
+const K1 = 1.2;
+const B = 0.75;
+// Term weights of the note fields; body text counts once per occurrence
+const TITLE_WEIGHT = 3;
+const HEADING_WEIGHT = 2;
+const TAG_WEIGHT = 2;
+const FRONTMATTER_WEIGHT = 1;
+// Indexing runs in slices of this length so the UI stays responsive
+const SLICE_MS = 12;
+const UPDATE_DELAY_MS = 1000;
+
+const STOPWORDS = new Set([
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has', 'have', 'how', 'i', 'if', 'in',
+    'into', 'is', 'it', 'its', 'me', 'my', 'no', 'not', 'of', 'on', 'or', 'our', 'so', 'that', 'the', 'their', 'then',
+    'there', 'these', 'this', 'to', 'was', 'we', 'were', 'what', 'when', 'where', 'which', 'who', 'why', 'will',
+    'with', 'you', 'your'
+]);
+
+interface LexicalDoc {
+    path: string;
+    heading: string;
+    line: number;
+    text: string;
+    length: number; // Weighted term count
+    terms: string[]; // Distinct terms, to remove the postings again
+}
+
+export interface LexicalIndexStats {
+    notes: number;
+    passages: number;
+    building: boolean;
+}
+
+/**
+ * Lowercases, strips diacritics and splits into words. Stopwords and single letters
+ * are dropped and a plural "s" is removed, so "Projects" matches "project".
+ */
+export function tokenize(text: string): string[] {
+    const words = text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+    const tokens: string[] = [];
+    for (const word of words) {
+        if (STOPWORDS.has(word) || (word.length < 2 && !/\d/.test(word))) continue;
+        tokens.push(word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word);
+    }
+    return tokens;
+}
+
+function collectStrings(value: unknown, out: string[]) {
+    if (typeof value === 'string' || typeof value === 'number') {
+        out.push(String(value));
+    } else if (Array.isArray(value)) {
+        value.forEach(item => collectStrings(item, out));
+    } else if (value && typeof value === 'object') {
+        Object.values(value).forEach(item => collectStrings(item, out));
+    }
+}
+
+function yieldToUi(): Promise<void> {
+    return new Promise(resolve => window.setTimeout(resolve, 0));
+}
+
+/**
+ * Offline BM25 index of the vault's markdown notes, one document per heading section.
+ * Titles, headings, tags and frontmatter values are weighted terms of every passage.
+ * Kept in memory only: built in small slices after startup, then updated from vault events.
+ * Triggers "changed" when the index content changes.
+ */
+export class LexicalIndex extends Events implements RetrievalSource {
+    readonly name = 'Keyword index';
+    app: App;
+    settings: GeminiPluginSettings;
+    private docs = new Map<number, LexicalDoc>();
+    private postings = new Map<string, Map<number, number>>(); // term -> doc id -> weighted frequency
+    private docsByPath = new Map<string, number[]>();
+    private nextId = 0;
+    private totalLength = 0;
+    private built = false;
+    private building: Promise<void> | null = null;
+    private queue = new Set<string>();
+
+    constructor(app: App, settings: GeminiPluginSettings) {
+        super();
+        this.app = app;
+        this.settings = settings;
+    }
+
+    isEnabled(): boolean {
+        return this.settings.enableLexicalIndex;
+    }
+
+    isReady(): boolean {
+        return this.isEnabled() && this.built;
+    }
+
+    getStats(): LexicalIndexStats {
+        return { notes: this.docsByPath.size, passages: this.docs.size, building: !!this.building };
+    }
+
+    /**
+     * Indexes the whole vault. Notes changed meanwhile are queued and indexed afterwards.
+     */
+    build(): Promise<void> {
+        if (this.building) {
+            return this.building;
+        }
+        if (!this.isEnabled()) {
+            this.clear();
+            return Promise.resolve();
+        }
+        this.building = this.indexVault().finally(() => {
+            this.building = null;
+            this.trigger('changed');
+            this.processQueue();
+        });
+        return this.building;
+    }
+
+    private async indexVault() {
+        this.clear();
+        this.trigger('changed');
+        let sliceStart = performance.now();
+        for (const file of this.app.vault.getMarkdownFiles()) {
+            if (!this.isEnabled()) return;
+            if (!isIndexableNote(file, this.settings.chatHistoryFolder)) continue;
+            await this.indexFile(file);
+            if (performance.now() - sliceStart > SLICE_MS) {
+                await yieldToUi();
+                sliceStart = performance.now();
+            }
+        }
+        this.built = true;
+    }
+
+    /**
+     * Frees the index, e.g. after it was disabled.
+     */
+    clear() {
+        this.docs.clear();
+        this.postings.clear();
+        this.docsByPath.clear();
+        this.totalLength = 0;
+        this.built = false;
+    }
+
+    onModify(file: TAbstractFile) {
+        if (!this.isEnabled() || !isIndexableNote(file, this.settings.chatHistoryFolder)) return;
+        this.queue.add(file.path);
+        this.requestProcess();
+    }
+
+    onDelete(file: TAbstractFile) {
+        this.queue.delete(file.path);
+        if (this.removePath(file.path)) {
+            this.trigger('changed');
+        }
+    }
+
+    onRename(file: TAbstractFile, oldPath: string) {
+        this.queue.delete(oldPath);
+        this.removePath(oldPath);
+        // The title is indexed, so a renamed note is indexed again
+        this.onModify(file);
+        this.trigger('changed');
+    }
+
+    async search(query: string, limit: number): Promise<RetrievalResult[]> {
+        if (!this.isReady()) {
+            throw new Error('The keyword index is disabled or still building.');
+        }
+        const terms = Array.from(new Set(tokenize(query)));
+        const count = this.docs.size;
+        const averageLength = count > 0 ? this.totalLength / count : 1;
+        const scores = new Map<number, number>();
+
+        for (const term of terms) {
+            const postings = this.postings.get(term);
+            if (!postings) continue;
+            const idf = Math.log(1 + (count - postings.size + 0.5) / (postings.size + 0.5));
+            postings.forEach((frequency, id) => {
+                const doc = this.docs.get(id) as LexicalDoc;
+                const norm = frequency + K1 * (1 - B + B * doc.length / averageLength);
+                scores.set(id, (scores.get(id) || 0) + idf * frequency * (K1 + 1) / norm);
+            });
+        }
+
+        return Array.from(scores.entries())
+            .sort((a, b) => b[1] - a[1])
+            .slice(0, limit)
+            .map(([id, score]) => {
+                const doc = this.docs.get(id) as LexicalDoc;
+                return { path: doc.path, heading: doc.heading, line: doc.line, text: doc.text, score };
+            });
+    }
+
+    private requestProcess = debounce(() => this.processQueue(), UPDATE_DELAY_MS, true);
+
+    private async processQueue() {
+        if (this.building || !this.built) return;
+        for (const path of Array.from(this.queue)) {
+            this.queue.delete(path);
+            const file = this.app.vault.getAbstractFileByPath(path);
+            this.removePath(path);
+            if (file && isIndexableNote(file, this.settings.chatHistoryFolder)) {
+                await this.indexFile(file);
+            }
+        }
+        this.trigger('changed');
+    }
+
+    private async indexFile(file: TFile) {
+        const content = await this.app.vault.cachedRead(file);
+        const lines = content.split('\n');
+        const end = frontmatterEnd(lines);
+
+        // Terms of the note itself, added to each of its passages
+        const noteTerms = new Map<string, number>();
+        const addTerms = (terms: Map<string, number>, text: string, weight: number) => {
+            for (const token of tokenize(text)) {
+                terms.set(token, (terms.get(token) || 0) + weight);
+            }
+        };
+        addTerms(noteTerms, file.basename, TITLE_WEIGHT);
+        if (end > 0) {
+            try {
+                const frontmatter = parseYaml(lines.slice(1, end - 1).join('\n')) || {};
+                const tags: string[] = [];
+                collectStrings(frontmatter.tags ?? frontmatter.tag, tags);
+                addTerms(noteTerms, tags.join(' '), TAG_WEIGHT);
+                const values: string[] = [];
+                collectStrings(frontmatter, values);
+                addTerms(noteTerms, values.join(' '), FRONTMATTER_WEIGHT);
+            } catch (e) {
+                // Invalid frontmatter, index the body only
+            }
+        }
+        const inlineTags = Array.from(content.matchAll(/(?:^|\s)#([\p{L}\p{N}_/-]+)/gu)).map(match => match[1]);
+        addTerms(noteTerms, inlineTags.join(' '), TAG_WEIGHT - 1);
+
+        const chunks = chunkMarkdown(content);
+        if (chunks.length === 0) {
+            chunks.push({ heading: '', line: 0, text: '' });
+        }
+
+        const ids: number[] = [];
+        for (const chunk of chunks) {
+            const terms = new Map(noteTerms);
+            const headingLine = chunk.text.match(/^#{1,6}\s+(.*)/);
+            addTerms(terms, chunk.heading, HEADING_WEIGHT);
+            addTerms(terms, headingLine ? chunk.text.slice(headingLine[0].length) : chunk.text, 1);
+
+            const id = this.nextId++;
+            let length = 0;
+            terms.forEach((frequency, term) => {
+                length += frequency;
+                let postings = this.postings.get(term);
+                if (!postings) {
+                    postings = new Map();
+                    this.postings.set(term, postings);
+                }
+                postings.set(id, frequency);
+            });
+            this.docs.set(id, { path: file.path, heading: chunk.heading, line: chunk.line, text: chunk.text, length, terms: Array.from(terms.keys()) });
+            this.totalLength += length;
+            ids.push(id);
+        }
+        this.docsByPath.set(file.path, ids);
+    }
+
+    private removePath(path: string): boolean {
+        const ids = this.docsByPath.get(path);
+        if (!ids) return false;
+        for (const id of ids) {
+            const doc = this.docs.get(id);
+            if (!doc) continue;
+            for (const term of doc.terms) {
+                const postings = this.postings.get(term);
+                postings?.delete(id);
+                if (postings && postings.size === 0) {
+                    this.postings.delete(term);
+                }
+            }
+            this.totalLength -= doc.length;
+            this.docs.delete(id);
+        }
+        this.docsByPath.delete(path);
+        return true;
+    }
+}
@@ -0,0 +1,71 @@
+import { App, TFile } from "obsidian";
+import { estimateTokens } from "./context-guard";
+import { isIndexableNote } from "./note-chunker";
+
+export interface LinkedNote {
+    file: TFile;
+    hops: number; // 1 = links to or from the start note directly
+    tokens: number; // Estimated from the file size
+}
+
+/**
+ * Notes within `depth` links of `start`, following outgoing links and backlinks
+ * from `metadataCache.resolvedLinks`. Nearer notes come first, then the most recently
+ * modified; notes that no longer fit the token budget are skipped. Only markdown notes
+ * outside the chat history folder are included or followed, and never `start` itself.
+ */
+export function getLinkNeighborhood(
+    app: App,
+    start: TFile,
+    options: { depth: number; tokenBudget: number; chatHistoryFolder: string }
+): LinkedNote[] {
+    if (options.depth <= 0) return [];
+
+    const resolvedLinks = app.metadataCache.resolvedLinks;
+    const backlinks = new Map<string, string[]>();
+    for (const [source, targets] of Object.entries(resolvedLinks)) {
+        for (const target of Object.keys(targets)) {
+            const sources = backlinks.get(target);
+            if (sources) {
+                sources.push(source);
+            } else {
+                backlinks.set(target, [source]);
+            }
+        }
+    }
+
+    const hopsByPath = new Map<string, number>([[start.path, 0]]);
+    let frontier = [start.path];
+    for (let hops = 1; hops <= options.depth && frontier.length > 0; hops++) {
+        const next: string[] = [];
+        for (const path of frontier) {
+            const neighbors = [...Object.keys(resolvedLinks[path] || {}), ...(backlinks.get(path) || [])];
+            for (const neighbor of neighbors) {
+                if (hopsByPath.has(neighbor)) continue;
+                // Chat notes link to everything attached in old conversations, so they are not walked through either
+                const file = app.vault.getAbstractFileByPath(neighbor);
+                if (!file || !isIndexableNote(file, options.chatHistoryFolder)) continue;
+                hopsByPath.set(neighbor, hops);
+                next.push(neighbor);
+            }
+        }
+        frontier = next;
+    }
+
+    const candidates: LinkedNote[] = [];
+    hopsByPath.forEach((hops, path) => {
+        const file = app.vault.getAbstractFileByPath(path);
+        if (hops === 0 || !(file instanceof TFile)) return;
+        candidates.push({ file, hops, tokens: estimateTokens(file.stat.size) });
+    });
+    candidates.sort((a, b) => a.hops - b.hops || b.file.stat.mtime - a.file.stat.mtime);
+
+    const selected: LinkedNote[] = [];
+    let tokens = 0;
+    for (const note of candidates) {
+        if (tokens + note.tokens > options.tokenBudget) continue;
+        selected.push(note);
+        tokens += note.tokens;
+    }
+    return selected;
+}
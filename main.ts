@@ -1,12 +1,34 @@
-import { App, ItemView, MarkdownRenderer, Notice, Plugin, PluginSettingTab, Setting, WorkspaceLeaf, setIcon, ButtonComponent, TextAreaComponent, TFile, DropdownComponent } from 'obsidian';
+import { App, EventRef, Events, ItemView, moment, MarkdownRenderer, normalizePath, Notice, Plugin, PluginSettingTab, Setting, WorkspaceLeaf, setIcon, ButtonComponent, TextAreaComponent, TFile, DropdownComponent, debounce, arrayBufferToBase64, base64ToArrayBuffer } from 'obsidian';
 import { NoteService } from './note-service';
-import { ChatHistoryService } from './chat-history-service';
+import { ChatHistoryService, ChatNoteMetadata } from './chat-history-service';
+import { stampMessage } from './chat-note-format';
 import { ChatHistoryModal } from './chat-history-modal';
 import { FileSuggestModal } from './file-suggest-modal';
 import { GeminiFileManager } from './gemini-file-manager';
-import { GeminiPluginSettings, GeminiChatMessage } from './types';
-import { DEFAULT_SETTINGS, VIEW_TYPE_GEMINI_CHAT, GEMINI_MODELS } from './constants';
+import { ContextTrimStrategy, GeminiPluginSettings, GeminiChatMessage, GeminiToolCall, GenerationParameters, ProviderId, RetrievalResult, RetrievalSource } from './types';
+import { DEFAULT_MODEL_PRICES, DEFAULT_SETTINGS, GEMINI_MODELS, VIEW_TYPE_GEMINI_CHAT, VIEW_TYPE_USAGE_DASHBOARD } from './constants';
 import { GeminiApiClient } from './gemini-api-client';
+import { ChatProvider, PROVIDER_NAMES, getDefaultModel } from './chat-provider';
+import { OpenAiCompatibleClient } from './openai-api-client';
+import { OllamaApiClient } from './ollama-api-client';
+import { GeminiApiError } from './gemini-request';
+import { PersonaService } from './persona-service';
+import { VaultTools } from './vault-tools';
+import { ModelCatalog } from './model-catalog';
+import { ContextAttachment, ContextGuard, ContextGuardResult } from './context-guard';
+import { UsageLedger, findModelPrice } from './usage-ledger';
+import { BudgetUsage, describeBudgetUsage, getBudgetStatus, isBudgeted } from './budget-guard';
+import { UsageDashboardView } from './usage-dashboard-view';
+import { EmbeddingIndex } from './embedding-index';
+import { LexicalIndex } from './lexical-index';
+import { PassageSearchModal, openPassage } from './passage-search-modal';
+import { NotePickerModal } from './note-picker-modal';
+import { getBranch, getBranchEnd, getBranchThrough, getSiblings, removeTurn } from './message-tree';
+import { COLLECTION_ICONS, CollectionService, ResolvedCollection, describeCollection, formatTokenCount } from './context-collection';
+import { ContextCollectionModal, describeResolved } from './context-collection-modal';
+import { LinkedNote, getLinkNeighborhood } from './link-neighborhood';
+import { MIN_AUTO_CONTEXT_QUERY, describePassage, formatPassage, passageKey, selectPassages } from './auto-context';
+import { GenerationSettingsModal, describeGenerationParameters, hasGenerationParameters, renderGenerationControls, resolveGenerationParameters } from './generation-settings';
 
 // ----------------------------------------------------------------
 // Main Plugin Class
@@ -15,10 +37,79 @@ import { GeminiApiClient } from './gemini-api-client';
 export default class GeminiPlugin extends Plugin {
 	settings: GeminiPluginSettings;
 	view: GeminiChatView;
+	modelCatalog: ModelCatalog = new ModelCatalog();
+	usageLedger: UsageLedger;
+	embeddingIndex: EmbeddingIndex;
+	lexicalIndex: LexicalIndex;
 
 	async onload() {
 		await this.loadSettings();
 
+		const pluginDir = this.manifest.dir || `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+		this.usageLedger = new UsageLedger(this.app, pluginDir);
+		await this.usageLedger.load();
+		this.embeddingIndex = new EmbeddingIndex(this.app, pluginDir, this.settings, this.usageLedger);
+		await this.embeddingIndex.load();
+		this.lexicalIndex = new LexicalIndex(this.app, this.settings);
+
+		this.registerView(
+			VIEW_TYPE_USAGE_DASHBOARD,
+			(leaf) => new UsageDashboardView(leaf, this)
+		);
+
+		this.addCommand({
+			id: 'open-gemini-usage-dashboard',
+			name: 'Open Usage Dashboard',
+			callback: () => {
+				this.activateUsageDashboard();
+			}
+		});
+
+		// Keep ledger entries attached to chat notes that get renamed
+		this.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+			const chatFolder = normalizePath(this.settings.chatHistoryFolder);
+			if (file instanceof TFile && oldPath.startsWith(`${chatFolder}/`)) {
+				this.usageLedger.renameChat(oldPath.slice(chatFolder.length + 1), file.name);
+			}
+		}));
+
+		// Keep the search indexes current. Registered once the vault has loaded, since
+		// "create" also fires for every existing file during startup.
+		this.app.workspace.onLayoutReady(() => {
+			for (const index of [this.embeddingIndex, this.lexicalIndex]) {
+				this.registerEvent(this.app.vault.on('create', file => index.onModify(file)));
+				this.registerEvent(this.app.vault.on('modify', file => index.onModify(file)));
+				this.registerEvent(this.app.vault.on('delete', file => index.onDelete(file)));
+				this.registerEvent(this.app.vault.on('rename', (file, oldPath) => index.onRename(file, oldPath)));
+			}
+			this.embeddingIndex.sync();
+			this.lexicalIndex.build();
+		});
+
+		this.addCommand({
+			id: 'semantic-search',
+			name: 'Semantic Search',
+			callback: () => {
+				if (!this.embeddingIndex.isReady()) {
+					new Notice('The semantic index is not ready. Enable it in the plugin settings and wait for indexing to finish.');
+					return;
+				}
+				new PassageSearchModal(this.app, this.embeddingIndex, 400).open();
+			}
+		});
+
+		this.addCommand({
+			id: 'keyword-search',
+			name: 'Keyword Search (offline)',
+			callback: () => {
+				if (!this.lexicalIndex.isReady()) {
+					new Notice('The keyword index is not ready. Enable it in the plugin settings and wait for indexing to finish.');
+					return;
+				}
+				new PassageSearchModal(this.app, this.lexicalIndex).open();
+			}
+		});
+
 		// Register the Chat View
 		this.registerView(
 			VIEW_TYPE_GEMINI_CHAT,
@@ -59,12 +150,64 @@ export default class GeminiPlugin extends Plugin {
             }
         });
 
+		this.addCommand({
+			id: 'export-chat-branch',
+			name: 'Export Current Chat Branch as a New Note',
+			callback: () => {
+				if (!this.view || this.view.history.length === 0) {
+					new Notice('Open a chat first.');
+					return;
+				}
+				this.view.exportBranch();
+			}
+		});
+
+		this.addCommand({
+			id: 'migrate-chat-notes',
+			name: 'Upgrade Chat Notes to the Current Format',
+			callback: async () => {
+				const historyService = new ChatHistoryService(this.app);
+				const migrated = await historyService.migrateChats(this.settings.chatHistoryFolder);
+				new Notice(migrated > 0 ? `Upgraded ${migrated} chat note(s).` : 'All chat notes are up to date.');
+			}
+		});
+
 		// Add Settings Tab
 		this.addSettingTab(new GeminiSettingTab(this.app, this));
 	}
 
 	onunload() {
 		// View is automatically detached
+		this.usageLedger?.save();
+		this.embeddingIndex?.save();
+	}
+
+	/**
+	 * The index used for auto context: the preferred one if it is ready, otherwise
+	 * any ready index, or null.
+	 */
+	getRetrievalSource(): RetrievalSource | null {
+		const sources: RetrievalSource[] = this.settings.autoContextSource === 'lexical'
+			? [this.lexicalIndex, this.embeddingIndex]
+			: [this.embeddingIndex, this.lexicalIndex];
+		return sources.find(source => source.isReady()) || null;
+	}
+
+	async openChat(file: TFile) {
+		await this.activateView();
+		if (this.view) {
+			await this.view.loadChat(file);
+		}
+	}
+
+	async activateUsageDashboard() {
+		const { workspace } = this.app;
+		const existing = workspace.getLeavesOfType(VIEW_TYPE_USAGE_DASHBOARD);
+		const leaf = existing.length > 0 ? existing[0] : workspace.getLeaf('tab');
+		if (existing.length === 0) {
+			await leaf.setViewState({ type: VIEW_TYPE_USAGE_DASHBOARD, active: true });
+		}
+		workspace.revealLeaf(leaf);
 	}
 
 	async activateView() {
@@ -90,6 +233,9 @@ export default class GeminiPlugin extends Plugin {
 
 	async loadSettings() {
 		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		// Copy nested objects so edits never touch DEFAULT_SETTINGS
+		this.settings.generationDefaults = { ...this.settings.generationDefaults };
+		this.settings.modelPrices = { ...this.settings.modelPrices };
 	}
 
 	async saveSettings() {
@@ -101,6 +247,50 @@ export default class GeminiPlugin extends Plugin {
 // Chat View
 // ----------------------------------------------------------------
 
+const CONTINUE_PROMPT = 'Continue exactly where your last response was cut off.';
+
+/**
+ * Explains why a reply ended early, or returns null for a normal stop.
+ */
+function describeFinish(msg: GeminiChatMessage): { text: string; canContinue: boolean } | null {
+    const ratings = msg.safetyRatings || [];
+    const blocked = ratings.filter(r => r.blocked);
+    const categories = (blocked.length > 0 ? blocked : ratings.filter(r => r.probability === 'HIGH' || r.probability === 'MEDIUM'))
+        .map(r => r.category)
+        .join(', ');
+    const detail = msg.finishMessage ? ` — ${msg.finishMessage}` : '';
+
+    if (msg.blockReason) {
+        return { text: `Blocked: the prompt was rejected (${msg.blockReason})${categories ? `: ${categories}` : ''}${detail}`, canContinue: false };
+    }
+    switch (msg.finishReason) {
+        case undefined:
+        case 'STOP':
+        case 'FINISH_REASON_UNSPECIFIED':
+            return null;
+        case 'MAX_TOKENS':
+            return { text: 'Cut off at max tokens — Continue?', canContinue: true };
+        case 'SAFETY':
+            return { text: `Blocked: ${categories || 'safety filters'}${detail}`, canContinue: false };
+        case 'RECITATION':
+            return { text: `Stopped: the reply was too close to existing material (recitation)${detail}`, canContinue: false };
+        default:
+            return { text: `Stopped: ${msg.finishReason}${detail}`, canContinue: false };
+    }
+}
+
+// A user turn waiting for a reply, kept so a failed request can be retried as-is
+interface PendingTurn {
+    userMsg: GeminiChatMessage;
+    text: string;
+    selectedFiles: TFile[];
+    activeFile: TFile | null;
+    prepared?: boolean; // userMsg.parts already hold the request, e.g. for "Continue"
+    passages?: RetrievalResult[]; // Chosen by auto context
+    collections?: ResolvedCollection[]; // Folders, tags and searches, expanded at send time
+    linkedNotes?: LinkedNote[]; // Link neighborhood of the active note
+}
+
 class GeminiChatView extends ItemView {
 	plugin: GeminiPlugin;
 	messagesContainer: HTMLElement;
@@ -108,23 +298,45 @@ class GeminiChatView extends ItemView {
     headerContainer: HTMLElement;
     contextChipsContainer: HTMLElement;
     activeContextBtn: HTMLElement;
+    autoContextBtn: HTMLElement;
     thinkingToggleBtn: HTMLElement; // New Toggle Button
     sendBtn: ButtonComponent;
     stopBtn: HTMLElement;
     abortController: AbortController | null = null;
     
-    history: GeminiChatMessage[] = [];
+    history: GeminiChatMessage[] = []; // The branch shown and sent to the model
+    messages: GeminiChatMessage[] = []; // Every message of the chat, in all branches
+    savedActiveBranch: string | undefined; // `activeBranch` as written in the chat note
     noteService: NoteService;
     chatHistoryService: ChatHistoryService;
     fileManager: GeminiFileManager;
     apiClient: GeminiApiClient;
+    vaultTools: VaultTools;
+    personaService: PersonaService;
+    collectionService: CollectionService;
+    contextGuard: ContextGuard;
+    providers: Record<ProviderId, ChatProvider>;
     currentChatFile: string | null = null;
+    generationBtn: HTMLElement;
+    currentProvider: ProviderId;
     currentModel: string;
+    currentPersona: string; // Persona note name, empty for none
+    generationOverrides: GenerationParameters = {}; // Per-chat overrides of the generation defaults
+    budgetWarnings = new Set<string>(); // Limits already warned about in the current period
     
     // Context State
     contextFiles: TFile[] = [];
+    contextCollections: ResolvedCollection[] = [];
     isActiveContextEnabled: boolean = true;
     isThinkingEnabled: boolean = true; // Local state for thinking
+    isAutoContextEnabled: boolean;
+    autoPassages: RetrievalResult[] = []; // Retrieved for the draft in the input box
+    autoPassagesQuery = ''; // The draft text autoPassages were retrieved for
+    dismissedPassages = new Set<string>(); // Passages removed from the draft by the user
+    linkChoices: Record<string, string> = {}; // Notes picked for ambiguous links in this chat
+    linkChoicesUnsaved = false; // Picked before the note of a new chat was created
+    linkWarnings: string[] = []; // Links of the last message that could not be sent
+    editedMessage: GeminiChatMessage | null = null; // Message loaded into the input box with Edit & Resend
     
     constructor(leaf: WorkspaceLeaf, plugin: GeminiPlugin) {
         super(leaf);
@@ -132,9 +344,21 @@ class GeminiChatView extends ItemView {
         this.noteService = new NoteService(plugin.app);
         this.chatHistoryService = new ChatHistoryService(plugin.app);
         this.fileManager = new GeminiFileManager(plugin.app);
-        this.apiClient = new GeminiApiClient();
-        this.currentModel = this.plugin.settings.modelName;
+        this.apiClient = new GeminiApiClient(plugin.modelCatalog);
+        this.contextGuard = new ContextGuard(this.apiClient);
+        this.vaultTools = new VaultTools(plugin.app, this.noteService);
+        this.personaService = new PersonaService(plugin.app);
+        this.collectionService = new CollectionService(plugin.app);
+        this.providers = {
+            gemini: this.apiClient,
+            openai: new OpenAiCompatibleClient(),
+            ollama: new OllamaApiClient()
+        };
+        this.currentProvider = this.plugin.settings.provider;
+        this.currentModel = getDefaultModel(this.plugin.settings);
+        this.currentPersona = this.plugin.settings.defaultPersona;
         this.isThinkingEnabled = this.plugin.settings.enableThinking; // Init from settings
+        this.isAutoContextEnabled = this.plugin.settings.enableAutoContext;
     }
 
 	getViewType() {
@@ -263,6 +487,18 @@ class GeminiChatView extends ItemView {
             new FileSuggestModal(this.app, (file) => this.addContextFile(file)).open();
         });
 
+        const addCollectionBtn = toolbar.createDiv({ cls: 'gemini-toolbar-btn', attr: { title: 'Add a folder, tag or search results to context' } });
+        setIcon(addCollectionBtn, 'folder-plus');
+        addCollectionBtn.createSpan({ text: 'Add Notes' });
+        addCollectionBtn.onClickEvent(() => {
+            new ContextCollectionModal(
+                this.app,
+                this.collectionService,
+                this.plugin.settings.chatHistoryFolder,
+                (resolved) => this.addContextCollection(resolved)
+            ).open();
+        });
+
         this.activeContextBtn = toolbar.createDiv({ cls: 'gemini-toolbar-btn', attr: { title: 'Toggle active file context' } });
         setIcon(this.activeContextBtn, 'eye');
         this.activeContextBtn.createSpan({ text: 'Active Note' });
@@ -272,13 +508,27 @@ class GeminiChatView extends ItemView {
         this.activeContextBtn.onClickEvent(() => {
             this.isActiveContextEnabled = !this.isActiveContextEnabled;
             this.renderContextChips();
+            this.saveChatContext();
+        });
+
+        this.autoContextBtn = toolbar.createDiv({ cls: 'gemini-toolbar-btn', attr: { title: 'Add relevant vault passages to each question' } });
+        setIcon(this.autoContextBtn, 'sparkles');
+        this.autoContextBtn.createSpan({ text: 'Auto Context' });
+        this.autoContextBtn.onClickEvent(() => {
+            if (!this.isAutoContextEnabled && !this.plugin.getRetrievalSource()) {
+                new Notice('Auto context needs a search index. Enable the semantic or keyword index in the plugin settings.');
+                return;
+            }
+            this.isAutoContextEnabled = !this.isAutoContextEnabled;
+            this.autoPassagesQuery = '';
+            this.refreshAutoContext(this.inputTextArea.getValue());
         });
 
         // --- Model Selector & Thinking Toggle ---
         const controlsContainer = toolbar.createDiv({ cls: 'gemini-controls-container', attr: { style: 'display: flex; align-items: center; gap: 8px; margin-left: auto;' } });
 
-        // Thinking Toggle (Visible only for non-Gemini 3 models)
-        this.thinkingToggleBtn = controlsContainer.createDiv({ cls: 'gemini-toolbar-btn gemini-thinking-toggle', attr: { title: 'Toggle Thinking (Gemini 2.5)' } });
+        // Thinking Toggle (Visible only for Gemini 2.5 and Ollama models)
+        this.thinkingToggleBtn = controlsContainer.createDiv({ cls: 'gemini-toolbar-btn gemini-thinking-toggle', attr: { title: 'Toggle Thinking' } });
         // Initial Icon state
         setIcon(this.thinkingToggleBtn, this.isThinkingEnabled ? 'brain-circuit' : 'brain'); 
         this.thinkingToggleBtn.toggleClass('is-active', this.isThinkingEnabled);
@@ -294,11 +544,14 @@ class GeminiChatView extends ItemView {
                 setIcon(this.thinkingToggleBtn, 'brain');
                 new Notice('Thinking disabled');
             }
+            this.saveChatContext();
         });
 
         // Visibility logic
         const updateThinkingVisibility = (model: string) => {
-            if (model.includes('gemini-3')) {
+            const supportsToggle = this.currentProvider === 'ollama'
+                || (this.currentProvider === 'gemini' && this.plugin.modelCatalog.getModel(model).thinking === 'budget');
+            if (!supportsToggle) {
                 this.thinkingToggleBtn.style.display = 'none';
             } else {
                 this.thinkingToggleBtn.style.display = 'flex';
@@ -306,16 +559,59 @@ class GeminiChatView extends ItemView {
         };
         updateThinkingVisibility(this.currentModel);
 
+        // Generation Settings
+        this.generationBtn = controlsContainer.createDiv({ cls: 'gemini-toolbar-btn', attr: { title: 'Generation settings for this chat' } });
+        setIcon(this.generationBtn, 'sliders-horizontal');
+        this.generationBtn.toggleClass('is-active', hasGenerationParameters(this.generationOverrides));
+        this.generationBtn.onClickEvent(() => this.openGenerationSettings());
+
+        // Persona Selector
+        const personaDropdown = new DropdownComponent(controlsContainer);
+        personaDropdown.selectEl.addClass('gemini-model-selector');
+        personaDropdown.selectEl.setAttribute('title', 'Persona (system instruction)');
+        personaDropdown.addOption('', 'No persona');
+        const personaNames = this.personaService.getPersonaNames(this.plugin.settings.personaFolder);
+        if (this.currentPersona && !personaNames.includes(this.currentPersona)) {
+            personaDropdown.addOption(this.currentPersona, `${this.currentPersona} (missing)`);
+        }
+        personaNames.forEach(name => personaDropdown.addOption(name, name));
+        personaDropdown.setValue(this.currentPersona)
+            .onChange(async (value) => {
+                this.currentPersona = value;
+                new Notice(value ? `Persona switched to ${value}` : 'Persona cleared');
+                if (this.currentChatFile) {
+                    await this.chatHistoryService.updateChatMetadata(
+                        this.plugin.settings.chatHistoryFolder,
+                        this.currentChatFile,
+                        { persona: value || undefined }
+                    );
+                }
+            });
+
         const dropdown = new DropdownComponent(controlsContainer);
         dropdown.selectEl.addClass('gemini-model-selector');
-        GEMINI_MODELS.forEach(model => dropdown.addOption(model.id, model.name));
+        dropdown.selectEl.setAttribute('title', PROVIDER_NAMES[this.currentProvider]);
+        dropdown.addOption(this.currentModel, this.currentModel);
         
         dropdown.setValue(this.currentModel)
             .onChange(async (value) => {
                 this.currentModel = value;
                 updateThinkingVisibility(value);
                 new Notice(`Model switched to ${value}`);
+                await this.saveChatContext();
             });
+
+        // Model lists of other providers come from their servers, so fill the dropdown once loaded
+        this.providers[this.currentProvider].listModels(this.plugin.settings).then(models => {
+            dropdown.selectEl.empty();
+            if (!models.some(model => model.id === this.currentModel)) {
+                dropdown.addOption(this.currentModel, this.currentModel);
+            }
+            models.forEach(model => dropdown.addOption(model.id, model.name));
+            dropdown.setValue(this.currentModel);
+            // Capabilities may have changed now that the catalog is loaded
+            updateThinkingVisibility(this.currentModel);
+        });
     }
 
     createInputArea(container: Element) {
@@ -326,6 +622,12 @@ class GeminiChatView extends ItemView {
         this.inputTextArea.setPlaceholder('Ask Gemini...');
         this.inputTextArea.inputEl.rows = 6;
         
+        this.inputTextArea.inputEl.addEventListener('input', () => {
+            if (this.isAutoContextEnabled) {
+                this.requestAutoContext();
+            }
+        });
+
         this.inputTextArea.inputEl.addEventListener('keydown', (e) => {
             if (e.key === 'Enter' && e.shiftKey) {
                 e.preventDefault();
@@ -416,12 +718,102 @@ class GeminiChatView extends ItemView {
         if (!this.contextFiles.includes(file)) {
             this.contextFiles.push(file);
             this.renderContextChips();
+            this.saveChatContext();
         }
     }
 
     removeContextFile(file: TFile) {
         this.contextFiles = this.contextFiles.filter(f => f !== file);
         this.renderContextChips();
+        this.saveChatContext();
+    }
+
+    addContextCollection(resolved: ResolvedCollection) {
+        this.contextCollections.push(resolved);
+        this.renderContextChips();
+        this.saveChatContext();
+    }
+
+    removeContextCollection(resolved: ResolvedCollection) {
+        this.contextCollections = this.contextCollections.filter(c => c !== resolved);
+        this.renderContextChips();
+        this.saveChatContext();
+    }
+
+    /**
+     * Everything kept in the chat note's frontmatter.
+     */
+    getChatMetadata(): ChatNoteMetadata {
+        return {
+            persona: this.currentPersona || undefined,
+            generation: this.generationOverrides,
+            linkChoices: this.linkChoices,
+            activeBranch: this.getActiveBranch(),
+            ...this.getContextMetadata()
+        };
+    }
+
+    getContextMetadata(): ChatNoteMetadata {
+        return {
+            provider: this.currentProvider,
+            model: this.currentModel,
+            thinking: this.isThinkingEnabled,
+            activeNote: this.isActiveContextEnabled,
+            contextFiles: this.contextFiles.map(file => file.path),
+            collections: this.contextCollections.map(resolved => resolved.collection)
+        };
+    }
+
+    /**
+     * Stores the attachments, toggles and model in the chat note, so reopening the chat restores them.
+     */
+    async saveChatContext() {
+        if (!this.currentChatFile) return;
+        try {
+            await this.chatHistoryService.updateChatMetadata(
+                this.plugin.settings.chatHistoryFolder,
+                this.currentChatFile,
+                this.getContextMetadata()
+            );
+        } catch (error) {
+            console.error('Gemini: Failed to save the chat context:', error);
+        }
+    }
+
+    /**
+     * Restores the attachments of a saved chat. Missing files are dropped; media whose
+     * upload expired is uploaded again in the background, so the next message does not wait for it.
+     */
+    async restoreChatContext(metadata: ChatNoteMetadata) {
+        const paths = metadata.contextFiles || [];
+        this.contextFiles = paths
+            .map(path => this.app.vault.getAbstractFileByPath(path))
+            .filter((file): file is TFile => file instanceof TFile);
+        if (this.contextFiles.length < paths.length) {
+            new Notice(`${paths.length - this.contextFiles.length} attached file(s) of this chat no longer exist.`);
+        }
+        this.contextCollections = await Promise.all((metadata.collections || []).map(
+            collection => this.collectionService.resolve(collection, this.plugin.settings.chatHistoryFolder)
+        ));
+        this.renderContextChips();
+
+        const mediaFiles = this.contextFiles.filter(file => this.fileManager.isMediaFile(file));
+        if (this.currentProvider === 'gemini' && this.plugin.settings.apiKey && mediaFiles.length > 0) {
+            this.refreshUploads(mediaFiles);
+        }
+    }
+
+    async refreshUploads(files: TFile[]) {
+        const apiKey = this.plugin.settings.apiKey;
+        try {
+            // Drops uploads the Files API no longer has, so uploadFile sends those again
+            await this.fileManager.validateCache(apiKey);
+            for (const file of files) {
+                await this.fileManager.uploadFile(file, apiKey);
+            }
+        } catch (error) {
+            console.error('Gemini: Failed to upload the attached files again:', error);
+        }
     }
 
     renderContextChips() {
@@ -435,12 +827,19 @@ class GeminiChatView extends ItemView {
                 this.activeContextBtn.removeClass('is-active');
             }
         }
+        this.autoContextBtn?.toggleClass('is-active', this.isAutoContextEnabled);
 
         if (this.isActiveContextEnabled) {
             const activeChip = this.contextChipsContainer.createDiv({ cls: 'gemini-context-chip is-active-file' });
             const activeFile = this.app.workspace.getActiveFile();
             const fileName = activeFile ? activeFile.basename : '(None)';
             activeChip.createSpan({ text: `Active Note: ${fileName}` });
+            const linkedNotes = this.getLinkedNotes(activeFile);
+            if (linkedNotes.length > 0) {
+                const tokens = linkedNotes.reduce((sum, note) => sum + note.tokens, 0);
+                activeChip.createSpan({ text: `+ ${linkedNotes.length} linked · ~${formatTokenCount(tokens)} tokens` });
+                activeChip.setAttribute('title', linkedNotes.map(note => note.file.path).join('\n'));
+            }
         }
 
         for (const file of this.contextFiles) {
@@ -464,10 +863,114 @@ class GeminiChatView extends ItemView {
                 this.removeContextFile(file);
             });
         }
+
+        for (const resolved of this.contextCollections) {
+            const chip = this.contextChipsContainer.createDiv({
+                cls: 'gemini-context-chip is-collection-chip',
+                attr: { title: resolved.files.map(file => file.path).join('\n') }
+            });
+            setIcon(chip.createSpan({ cls: 'gemini-context-chip-icon' }), COLLECTION_ICONS[resolved.collection.kind]);
+            chip.createSpan({ text: describeCollection(resolved.collection), cls: 'gemini-context-chip-filename' });
+            chip.createSpan({ text: describeResolved(resolved), cls: 'gemini-context-chip-detail' });
+            const removeBtn = chip.createDiv({ cls: 'gemini-context-chip-remove' });
+            setIcon(removeBtn, 'x');
+            removeBtn.onClickEvent((e) => {
+                e.stopPropagation();
+                this.removeContextCollection(resolved);
+            });
+        }
+
+        for (const warning of this.linkWarnings) {
+            const chip = this.contextChipsContainer.createDiv({ cls: 'gemini-context-chip is-warning-chip' });
+            setIcon(chip.createSpan({ cls: 'gemini-context-chip-icon' }), 'alert-triangle');
+            chip.createSpan({ text: warning });
+            const removeBtn = chip.createDiv({ cls: 'gemini-context-chip-remove' });
+            setIcon(removeBtn, 'x');
+            removeBtn.onClickEvent((e) => {
+                e.stopPropagation();
+                this.linkWarnings = this.linkWarnings.filter(w => w !== warning);
+                this.renderContextChips();
+            });
+        }
+
+        for (const passage of this.autoPassages) {
+            const chip = this.contextChipsContainer.createDiv({ cls: 'gemini-context-chip is-passage-chip', attr: { title: passage.text.slice(0, 300) } });
+            setIcon(chip.createSpan({ cls: 'gemini-context-chip-icon' }), 'sparkles');
+            chip.createSpan({ text: describePassage(passage), cls: 'gemini-context-chip-filename' });
+            chip.onClickEvent(() => openPassage(this.app, passage.path, passage.line));
+            const removeBtn = chip.createDiv({ cls: 'gemini-context-chip-remove' });
+            setIcon(removeBtn, 'x');
+            removeBtn.onClickEvent((e) => {
+                e.stopPropagation();
+                this.dismissedPassages.add(passageKey(passage));
+                this.autoPassages = this.autoPassages.filter(p => p !== passage);
+                this.renderContextChips();
+            });
+        }
+    }
+
+    /**
+     * Notes around the active note that are sent with it, per the link depth setting.
+     */
+    getLinkedNotes(activeFile: TFile | null): LinkedNote[] {
+        const settings = this.plugin.settings;
+        if (!activeFile || settings.activeNoteLinkDepth <= 0) return [];
+        return getLinkNeighborhood(this.app, activeFile, {
+            depth: settings.activeNoteLinkDepth,
+            tokenBudget: settings.linkedNotesTokenBudget,
+            chatHistoryFolder: settings.chatHistoryFolder
+        });
+    }
+
+    requestAutoContext = debounce(() => this.refreshAutoContext(this.inputTextArea.getValue()), 800, true);
+
+    /**
+     * Searches the vault for passages relevant to the draft and shows them as chips.
+     * Passages of notes already in context and passages the user removed are left out.
+     */
+    async refreshAutoContext(draft: string) {
+        const query = draft.trim();
+        const source = this.plugin.getRetrievalSource();
+        if (!this.isAutoContextEnabled || !source || query.length < MIN_AUTO_CONTEXT_QUERY) {
+            this.autoPassages = [];
+            this.autoPassagesQuery = query;
+            this.renderContextChips();
+            return;
+        }
+        if (query === this.autoPassagesQuery) return;
+
+        const settings = this.plugin.settings;
+        const activeFile = this.isActiveContextEnabled ? this.app.workspace.getActiveFile() : null;
+        const collectionFiles = this.contextCollections.flatMap(c => c.files);
+        const excludePaths = new Set([...this.contextFiles, ...collectionFiles, ...(activeFile ? [activeFile] : [])].map(f => f.path));
+        try {
+            const results = await source.search(query, settings.autoContextMaxPassages * 3);
+            // The draft changed while searching; its own search will follow
+            if (this.inputTextArea.getValue().trim() !== query) return;
+            this.autoPassages = selectPassages(results, {
+                maxPassages: settings.autoContextMaxPassages,
+                tokenBudget: settings.autoContextTokenBudget,
+                excludePaths: excludePaths,
+                excludeKeys: this.dismissedPassages
+            });
+            this.autoPassagesQuery = query;
+        } catch (error) {
+            console.error('Gemini: Auto context search failed:', error);
+            this.autoPassages = [];
+        }
+        this.renderContextChips();
     }
 
     async startNewChat() {
-        this.currentModel = this.plugin.settings.modelName;
+        this.currentProvider = this.plugin.settings.provider;
+        this.currentModel = getDefaultModel(this.plugin.settings);
+        this.currentPersona = this.plugin.settings.defaultPersona;
+        this.generationOverrides = {};
+        this.linkChoices = {};
+        this.linkChoicesUnsaved = false;
+        this.linkWarnings = [];
+        this.editedMessage = null;
+        this.contextGuard.reset();
         this.isThinkingEnabled = !!this.plugin.settings.enableThinking; // Reset to default
 
         const titleEl = this.initializeChatUI();
@@ -475,38 +978,57 @@ class GeminiChatView extends ItemView {
 
         this.currentChatFile = null;
         this.history = [];
+        this.messages = [];
+        this.savedActiveBranch = undefined;
         this.contextFiles = [];
+        this.contextCollections = [];
         this.isActiveContextEnabled = true;
+        this.isAutoContextEnabled = this.plugin.settings.enableAutoContext;
+        this.autoPassages = [];
+        this.autoPassagesQuery = '';
+        this.dismissedPassages.clear();
         this.renderContextChips();
         this.addMessage({ role: 'model', content: 'Hello! I am Gemini. How can I help you with your notes today?' });
     }
 
     async loadChat(file: TFile) {
-        this.currentModel = this.plugin.settings.modelName;
-        this.isThinkingEnabled = !!this.plugin.settings.enableThinking; // Reset to default
+        const metadata = await this.chatHistoryService.loadChatMetadata(file);
+        // A chat keeps its model; chats saved before that use the current default
+        this.currentProvider = metadata.provider || this.plugin.settings.provider;
+        this.currentModel = metadata.model || getDefaultModel({ ...this.plugin.settings, provider: this.currentProvider });
+        this.currentPersona = metadata.persona || '';
+        this.generationOverrides = metadata.generation || {};
+        this.linkChoices = metadata.linkChoices || {};
+        this.linkChoicesUnsaved = false;
+        this.linkWarnings = [];
+        this.editedMessage = null;
+        this.contextGuard.reset();
+        this.isThinkingEnabled = metadata.thinking ?? !!this.plugin.settings.enableThinking;
+        this.isActiveContextEnabled = metadata.activeNote ?? true;
 
         const titleEl = this.initializeChatUI();
         if (titleEl) titleEl.setText(file.basename);
 
         this.contextFiles = [];
-        this.isActiveContextEnabled = true;
+        this.contextCollections = [];
+        this.isAutoContextEnabled = this.plugin.settings.enableAutoContext;
+        this.autoPassages = [];
+        this.autoPassagesQuery = '';
+        this.dismissedPassages.clear();
         this.renderContextChips();
 
         const loadedHistory = await this.chatHistoryService.loadChat(file);
         if (loadedHistory.length > 0) {
             this.currentChatFile = file.name;
-            this.history = loadedHistory.map(msg => ({
-                role: msg.role,
-                content: msg.content,
-                parts: msg.parts || [{ text: msg.content }],
-                thought: msg.thought,
-                thoughtSignature: msg.thoughtSignature
+            await this.restoreChatContext(metadata);
+            this.messages = loadedHistory.map(msg => ({
+                ...msg,
+                parts: msg.parts || [{ text: msg.content }]
             }));
+            this.history = getBranch(this.messages, metadata.activeBranch);
+            this.savedActiveBranch = metadata.activeBranch;
             
-            this.messagesContainer.empty();
-            for (const msg of this.history) {
-                this.addMessage(msg);
-            }
+            this.renderHistory();
             new Notice(`Loaded chat: ${file.basename}`);
         } else {
              this.startNewChat();
@@ -515,62 +1037,100 @@ class GeminiChatView extends ItemView {
 
 	async handleSend() {
 		const text = this.inputTextArea.getValue().trim();
-		if (!text && this.contextFiles.length === 0 && !this.isActiveContextEnabled) return;
+		if (!text && this.contextFiles.length === 0 && this.contextCollections.length === 0 && !this.isActiveContextEnabled) return;
+
+        const provider = this.providers[this.currentProvider];
+        const isGemini = provider.id === 'gemini';
 
-		if (!this.plugin.settings.apiKey) {
+		if (isGemini && !this.plugin.settings.apiKey) {
 			new Notice('Please set your Gemini API Key in settings.');
 			return;
 		}
 
+        // Sending before the draft was searched still gets auto context, just without a chance to review it
+        if (this.isAutoContextEnabled && text !== this.autoPassagesQuery) {
+            await this.refreshAutoContext(text);
+        }
+        const passages = this.isAutoContextEnabled ? [...this.autoPassages] : [];
+        this.autoPassages = [];
+        this.autoPassagesQuery = '';
+        this.dismissedPassages.clear();
+
+        // Collections are expanded again, so notes added or changed since the chip was created are included
+        const collections = await Promise.all(this.contextCollections.map(
+            c => this.collectionService.resolve(c.collection, this.plugin.settings.chatHistoryFolder)
+        ));
+        this.contextCollections = collections;
+        this.renderContextChips();
+
+        // An edited question becomes another version of the original one, which keeps its branch
+        const editedIndex = this.editedMessage ? this.history.indexOf(this.editedMessage) : -1;
+        this.editedMessage = null;
+        if (editedIndex >= 0) {
+            await this.showBranch(this.history.slice(0, editedIndex));
+        }
+
 		this.inputTextArea.setValue('');
 
         let displayContent = text;
         const nonImageFiles = this.contextFiles.filter(f => !this.fileManager.isImage(f));
         const imageFiles = this.contextFiles.filter(f => this.fileManager.isImage(f));
-        const imagePaths = imageFiles.map(f => this.app.vault.getResourcePath(f));
+        const imagePaths = imageFiles.map(f => f.path);
 
         if (nonImageFiles.length > 0) {
             const fileLinks = nonImageFiles.map(file => `[[${file.path}|${file.basename}]]`).join(', ');
             displayContent += displayContent ? `\n\n**Attachments:** ${fileLinks}` : `**Attachments:** ${fileLinks}`;
         }
 
+        if (collections.length > 0) {
+            const collectionList = collections.map(c => `${describeCollection(c.collection)} (${c.files.length} ${c.files.length === 1 ? 'note' : 'notes'})`).join(', ');
+            displayContent += displayContent ? `\n\n**Notes:** ${collectionList}` : `**Notes:** ${collectionList}`;
+        }
+
         if (imageFiles.length > 0) {
             const imageEmbeds = imageFiles.map(file => `![[${file.path}]]`).join('\n');
             displayContent += displayContent ? `\n\n${imageEmbeds}` : `${imageEmbeds}`;
         }
         
-        if (this.isActiveContextEnabled) {
-             const activeFile = this.app.workspace.getActiveFile();
-             if (activeFile) {
-                 const activeLink = `[[${activeFile.path}|${activeFile.basename}]]`;
-                 displayContent += displayContent ? `\n**Active Note:** ${activeLink}` : `**Active Note:** ${activeLink}`;
-             }
+        const activeFile = this.isActiveContextEnabled ? this.app.workspace.getActiveFile() : null;
+        const linkedNotes = this.getLinkedNotes(activeFile);
+        if (activeFile) {
+            let activeLink = `[[${activeFile.path}|${activeFile.basename}]]`;
+            if (linkedNotes.length > 0) {
+                activeLink += ` + ${linkedNotes.length} linked ${linkedNotes.length === 1 ? 'note' : 'notes'}`;
+            }
+            displayContent += displayContent ? `\n**Active Note:** ${activeLink}` : `**Active Note:** ${activeLink}`;
         }
 
         if (!displayContent && imagePaths.length === 0) {
             displayContent = "[Empty message]";
         }
 
-		const userMsg: GeminiChatMessage = {
+		const userMsg: GeminiChatMessage = stampMessage({
 			role: 'user',
 			content: displayContent,
 			parts: [],
             images: imagePaths
-		};
+		});
+        this.addToBranch(userMsg);
 		this.addMessage(userMsg);
-        this.history.push(userMsg);
         
         this.chatHistoryService.appendMessage(
             this.plugin.settings.chatHistoryFolder,
             this.currentChatFile, // null if new
             userMsg,
-            (this.currentChatFile === null && this.history.length === 1) ? text : undefined
-        ).then(file => {
+            (this.currentChatFile === null && this.history.length === 1) ? text : undefined,
+            this.getChatMetadata()
+        ).then(async file => {
             this.currentChatFile = file;
             const titleEl = this.headerContainer.querySelector('.gemini-chat-title');
             if (titleEl && this.currentChatFile) {
                 titleEl.setText(this.currentChatFile.replace(/\.md$/, ''));
             }
+            if (this.linkChoicesUnsaved) {
+                await this.saveLinkChoices();
+            }
+            await this.saveActiveBranch();
         }).catch(err => console.error("Failed to save chat:", err));
 
         // Capture selected files (no longer clearing context to persist selection)
@@ -580,165 +1140,351 @@ class GeminiChatView extends ItemView {
         // this.contextFiles = []; 
         // this.renderContextChips(); 
 
-		const loadingEl = this.messagesContainer.createDiv({ cls: 'gemini-chat-loading' });
-		loadingEl.setText('Gemini is thinking...');
-		this.messagesContainer.scrollTop = this.messagesContainer.scrollHeight;
-
-        this.abortController = new AbortController();
-        this.setLoading(true);
+        await this.requestResponse({
+            userMsg,
+            text,
+            selectedFiles,
+            passages,
+            collections,
+            linkedNotes,
+            activeFile
+        });
+	}
 
-        try {
-            // Validate file cache before processing
-            let validFileUris: Set<string> | undefined;
-            if (this.contextFiles.length > 0 || this.history.length > 0) { // Check even if no new files, history might have files
-                 validFileUris = await this.fileManager.validateCache(this.plugin.settings.apiKey);
+    /**
+     * Opens the per-chat generation settings. `onSaved` runs after the overrides are stored.
+     */
+    openGenerationSettings(onSaved?: () => void) {
+        new GenerationSettingsModal(this.app, this.generationOverrides, this.plugin.settings.generationDefaults, async (overrides) => {
+            this.generationOverrides = overrides;
+            this.generationBtn.toggleClass('is-active', hasGenerationParameters(overrides));
+            if (this.currentChatFile) {
+                await this.chatHistoryService.updateChatMetadata(
+                    this.plugin.settings.chatHistoryFolder,
+                    this.currentChatFile,
+                    { generation: overrides }
+                );
             }
+            onSaved?.();
+        }).open();
+    }
 
-            const messageParts: any[] = [];
-            let contextText = "";
-            let cachedContentName: string | undefined = undefined;
+    /**
+     * Rewrites the chat note from the in-memory messages, for edits that are not plain appends.
+     */
+    async saveHistory() {
+        if (!this.currentChatFile) return;
+        this.currentChatFile = await this.chatHistoryService.saveChat(
+            this.plugin.settings.chatHistoryFolder,
+            this.messages,
+            this.currentChatFile,
+            undefined,
+            this.getChatMetadata()
+        );
+        this.savedActiveBranch = this.getActiveBranch();
+    }
 
-            // --- 1. Collect & Deduplicate Files ---
-            const filesToProcess: TFile[] = [];
-            const processedPaths = new Set<string>();
-            const activeFile = this.app.workspace.getActiveFile();
+    /**
+     * Adds a new message to the end of the shown branch.
+     */
+    addToBranch(msg: GeminiChatMessage) {
+        msg.parentId = this.history[this.history.length - 1]?.id ?? null;
+        this.history.push(msg);
+        this.messages.push(msg);
+    }
 
-            // Priority 1: Active File (if enabled)
-            if (this.isActiveContextEnabled && activeFile) {
-                filesToProcess.push(activeFile);
-                processedPaths.add(activeFile.path);
-            }
+    /**
+     * Shows another branch, or part of the current one, and sends it from now on.
+     * The chat note remembers where the branch ends.
+     */
+    async showBranch(history: GeminiChatMessage[]) {
+        this.history = history;
+        this.contextGuard.reset();
+        this.renderHistory();
+        await this.saveActiveBranch();
+    }
 
-            // Priority 2: Selected Files (Add File)
-            // Ensure we maintain the order of selectedFiles
-            for (const file of selectedFiles) {
-                if (!processedPaths.has(file.path)) {
-                    filesToProcess.push(file);
-                    processedPaths.add(file.path);
-                }
-            }
+    /**
+     * The last message shown, when the chat note must remember it: after a rewind or
+     * when an older version is shown. Undefined for the newest branch.
+     */
+    getActiveBranch(): string | undefined {
+        return getBranchEnd(this.messages, this.history);
+    }
 
-            // --- 2. Categorize Files ---
-            const mediaFiles = filesToProcess.filter(f => this.fileManager.isMediaFile(f));
-            const textFiles = filesToProcess.filter(f => !this.fileManager.isMediaFile(f));
+    /**
+     * Writes `activeBranch` into the chat note when it changed, so the same branch is shown on reload.
+     */
+    async saveActiveBranch() {
+        const activeBranch = this.getActiveBranch();
+        if (!this.currentChatFile || activeBranch === this.savedActiveBranch) return;
+        this.savedActiveBranch = activeBranch;
+        await this.chatHistoryService.updateChatMetadata(
+            this.plugin.settings.chatHistoryFolder,
+            this.currentChatFile,
+            { activeBranch }
+        );
+    }
 
-            // Process Media Files (Upload & Cache)
-            // Strategy: Try to explicitly cache the FIRST media file. 
-            // If successful, use it as cachedContent. Subsequent files are standard file_data.
-            for (let i = 0; i < mediaFiles.length; i++) {
-                const file = mediaFiles[i];
-                try {
-                    const fileUri = await this.fileManager.uploadFile(file, this.plugin.settings.apiKey);
-                    
-                    if (validFileUris) {
-                        validFileUris.add(fileUri);
-                    }
+    async switchSibling(msg: GeminiChatMessage, offset: number) {
+        if (this.isBusy()) return;
+        const siblings = getSiblings(this.messages, msg);
+        const target = siblings[siblings.indexOf(msg) + offset];
+        if (!target) return;
+        await this.showBranch(getBranchThrough(this.messages, target.id ?? null));
+    }
 
-                    const mimeType = this.fileManager.getMimeType(file.extension) || 'application/octet-stream';
-                    
-                    let useExplicitCache = false;
-
-                    // Only attempt explicit caching for the FIRST file, and only if no cache is set yet
-                    if (i === 0 && !cachedContentName) {
-                        const cacheName = await this.fileManager.ensureExplicitCache(
-                            file, 
-                            fileUri, 
-                            mimeType, 
-                            this.currentModel, 
-                            this.plugin.settings.apiKey,
-                            this.plugin.settings // Pass settings for tool config
-                        );
-                        
-                        if (cacheName) {
-                            cachedContentName = cacheName;
-                            useExplicitCache = true;
-                            new Notice(`Using explicit cache for ${file.basename}`);
-                        }
-                    }
+    /**
+     * Saves the shown branch as a new, linear chat note.
+     */
+    async exportBranch() {
+        if (this.history.length === 0) {
+            new Notice('There is no chat to export.');
+            return;
+        }
+        const firstQuestion = this.history.find(msg => msg.role === 'user');
+        const fileName = await this.chatHistoryService.saveChat(
+            this.plugin.settings.chatHistoryFolder,
+            this.history.map(msg => ({ ...msg, id: undefined, parentId: undefined })),
+            undefined,
+            firstQuestion?.content,
+            { ...this.getChatMetadata(), activeBranch: undefined }
+        );
+        new Notice(`Branch exported to ${fileName}`);
+    }
 
-                    // If NOT using explicit cache (either failed, or not the first file), add as file_data part
-                    if (!useExplicitCache) {
-                        const part: any = {
-                            file_data: {
-                                mime_type: mimeType,
-                                file_uri: fileUri
-                            }
-                        };
+    renderHistory() {
+        this.messagesContainer.empty();
+        for (const msg of this.history) {
+            this.addMessage(msg);
+        }
+    }
 
-                        if (this.currentModel.includes('gemini-3') && this.plugin.settings.mediaResolution !== 'auto') {
-                            part.media_resolution = {
-                                level: `media_resolution_${this.plugin.settings.mediaResolution}`
-                            };
-                        }
-                        messageParts.push(part);
-                    } else {
-                        // If using explicit cache, the file is already in the cache context.
-                        // We DO NOT add it to messageParts.
-                    }
+    isBusy(): boolean {
+        if (this.abortController) {
+            new Notice('Please wait for the current response to finish.');
+            return true;
+        }
+        return false;
+    }
 
-                    if (!useExplicitCache) {
-                        new Notice(`Uploaded ${file.basename}`);
-                    }
+    /**
+     * Finds a message in the history; rows like error messages are only displayed.
+     */
+    indexOfMessage(msg: GeminiChatMessage): number {
+        const index = this.history.indexOf(msg);
+        if (index < 0) {
+            new Notice('This message is not part of the chat history.');
+        }
+        return index;
+    }
 
-                } catch (err) {
-                    throw new Error(`Failed to upload ${file.basename}: ${err.message}`);
-                }
-            }
+    /**
+     * Asks the model again for the same user turn. The new reply is added next to the old one.
+     */
+    async regenerateResponse(msg: GeminiChatMessage) {
+        if (this.isBusy()) return;
+        const index = this.indexOfMessage(msg);
+        if (index < 0) return;
+        const userMsg = this.history[index - 1];
+        if (!userMsg || userMsg.role !== 'user') {
+            new Notice('There is no question before this reply to answer again.');
+            return;
+        }
 
-            // Process Text Files
-            for (const file of textFiles) {
-                try {
-                    const content = await this.app.vault.read(file);
-                    // Use the captured activeFile for comparison
-                    const label = (activeFile && file.path === activeFile.path) ? "Active Note" : "Selected Note";
-                    contextText += `\n\n--- Content of ${label} [[${file.path}]] ---\n${content}\n--- End of ${label} ---\n`;
-                } catch (err) {
-                    console.error(`Failed to read ${file.path}:`, err);
-                }
-            }
+        await this.showBranch(this.history.slice(0, index));
+        await this.requestResponse({ userMsg, text: userMsg.content, selectedFiles: [], activeFile: null, prepared: true });
+    }
 
-            if (text) {
-                const linkRegex = /\\\[\[([^\]]+)\]\]/g;
-                const matches = Array.from(text.matchAll(linkRegex));
-                if (matches.length > 0) {
-                    new Notice(`Reading ${matches.length} linked text note(s)...`);
-                    for (const match of matches) {
-                        const linkContent = match[1];
-                        const cleanLink = linkContent.split('|')[0];
-                        const resolution = await this.noteService.resolveNoteFile(cleanLink);
-                        if (resolution.type === 'resolved') {
-                            const content = await this.noteService.readNoteText(resolution.file);
-                            contextText += `\n\n--- Content of Linked Note [[${cleanLink}]] ---\n${content}\n--- End of Linked Note ---\n`;
-                        }
-                    }
-                }
+    /**
+     * Removes a question together with its answers (all versions) and everything after it,
+     * so the chat still alternates between user and model.
+     */
+    async deleteMessage(msg: GeminiChatMessage) {
+        if (this.isBusy()) return;
+        if (this.indexOfMessage(msg) < 0) return;
+        this.messages = removeTurn(this.messages, msg);
+        this.history = this.history.filter(m => this.messages.includes(m));
+        this.contextGuard.reset();
+        this.renderHistory();
+        await this.saveHistory();
+    }
+
+    /**
+     * Continues the chat from this message. Later messages stay available as another branch.
+     */
+    async rewindTo(msg: GeminiChatMessage) {
+        if (this.isBusy()) return;
+        const index = this.indexOfMessage(msg);
+        if (index < 0 || index === this.history.length - 1) return;
+        await this.showBranch(this.history.slice(0, index + 1));
+    }
+
+    /**
+     * Asks the model to pick up a reply that was cut off at the token limit.
+     */
+    async continueResponse() {
+        if (this.abortController) {
+            new Notice('Please wait for the current response to finish.');
+            return;
+        }
+
+        const userMsg: GeminiChatMessage = stampMessage({ role: 'user', content: CONTINUE_PROMPT, parts: [{ text: CONTINUE_PROMPT }] });
+        this.addToBranch(userMsg);
+        this.addMessage(userMsg);
+        this.currentChatFile = await this.chatHistoryService.appendMessage(
+            this.plugin.settings.chatHistoryFolder,
+            this.currentChatFile,
+            userMsg
+        );
+
+        await this.requestResponse({ userMsg, text: CONTINUE_PROMPT, selectedFiles: [], activeFile: null, prepared: true });
+    }
+
+    /**
+     * Lets the user change the generation settings, then asks again for the latest
+     * reply. The new reply is added next to the old one.
+     */
+    resendWithChangedSettings(msg: GeminiChatMessage) {
+        if (this.abortController) {
+            new Notice('Please wait for the current response to finish.');
+            return;
+        }
+        if (this.history[this.history.length - 1] !== msg) {
+            new Notice('Only the latest reply can be resent.');
+            return;
+        }
+
+        this.openGenerationSettings(async () => {
+            if (this.history[this.history.length - 1] !== msg) return;
+            await this.regenerateResponse(msg);
+        });
+    }
+
+    /**
+     * Builds the request parts for a user turn that is already in history and asks
+     * the model for a reply. "Retry" on a failed reply calls this again with the same turn.
+     */
+    async requestResponse(turn: PendingTurn) {
+        const { userMsg } = turn;
+        const provider = this.providers[this.currentProvider];
+        const isGemini = provider.id === 'gemini';
+
+		const loadingEl = this.messagesContainer.createDiv({ cls: 'gemini-chat-loading' });
+		loadingEl.setText(`${isGemini ? 'Gemini' : this.currentModel} is thinking...`);
+		this.messagesContainer.scrollTop = this.messagesContainer.scrollHeight;
+
+        const streamingMessage = this.plugin.settings.enableStreaming ? this.createStreamingMessage(loadingEl) : null;
+
+        this.abortController = new AbortController();
+        this.setLoading(true);
+
+        let modelName = this.currentModel;
+        try {
+            const systemInstruction = await this.personaService.getInstruction(
+                this.plugin.settings.personaFolder,
+                this.currentPersona
+            );
+            if (this.currentPersona && !systemInstruction) {
+                new Notice(`Persona "${this.currentPersona}" not found or empty, sending without it.`);
             }
 
-            const finalUserText = (text + "\n" + contextText).trim();
-            if (finalUserText) {
-                messageParts.push({ text: finalUserText });
+            // Budgets are checked before anything is uploaded or sent
+            const budget = this.enforceBudget(provider);
+            modelName = budget.model;
+
+            // Validate file cache before processing
+            let validFileUris: Set<string> | undefined;
+            if (isGemini && (this.contextFiles.length > 0 || this.history.length > 0)) { // Check even if no new files, history might have files
+                 validFileUris = await this.fileManager.validateCache(this.plugin.settings.apiKey);
             }
 
-            if (messageParts.length === 0 && !cachedContentName) {
-                throw new Error("No content to send (upload failed or empty).");
+            // Continuations and resends reuse the parts already stored on the user message
+            let cachedContentName: string | undefined;
+            let attachments: ContextAttachment[] = [];
+            if (!turn.prepared) {
+                const request = await this.buildUserParts(turn, provider, modelName, systemInstruction, validFileUris);
+                userMsg.parts = request.parts;
+                userMsg.cachedFile = request.cachedFile;
+                attachments = request.attachments;
+                cachedContentName = request.cachedContentName;
+            } else if (isGemini && userMsg.cachedFile) {
+                // The media of this question was only sent in an explicit cache, which may have expired since
+                cachedContentName = await this.resolveCachedFile(userMsg, modelName, systemInstruction, validFileUris);
             }
 
-            userMsg.parts = messageParts;
+            // Check the assembled request against the model's input limit and trim it if needed
+            let requestHistory = this.history;
+            if (isGemini) {
+                const guard = await this.contextGuard.fit({
+                    history: this.history,
+                    attachments: attachments,
+                    model: this.plugin.modelCatalog.getModel(modelName),
+                    settings: this.plugin.settings,
+                    systemInstruction: systemInstruction,
+                    cachedContentName: cachedContentName,
+                    vaultTools: this.plugin.settings.enableVaultTools,
+                    validFileUris: validFileUris,
+                    signal: this.abortController.signal
+                });
+                requestHistory = guard.history;
+                if (guard.summaryUsage) {
+                    this.plugin.usageLedger.record({ role: 'model', content: '', usageMetadata: guard.summaryUsage }, {
+                        provider: provider.id,
+                        model: modelName,
+                        chat: this.currentChatFile,
+                        purpose: 'summary'
+                    });
+                }
+                if (guard.overLimit) {
+                    this.showContextWarning(guard, modelName);
+                }
+                // A single large request (e.g. a long video) must not silently go over a limit that was not reached yet
+                if (!budget.exceeded && guard.totalTokens) {
+                    this.enforceRequestBudget(provider, modelName, guard.totalTokens);
+                }
+            }
 
-            const responseMsg = await this.apiClient.generateContent(
-                this.history, 
-                this.currentModel, 
+            const generation = resolveGenerationParameters(this.plugin.settings.generationDefaults, this.generationOverrides);
+            const responseMsg = await provider.generateContent(
+                requestHistory, 
+                modelName, 
                 this.plugin.settings,
-                this.abortController.signal,
-                cachedContentName,
-                this.isThinkingEnabled, // Pass the UI state override
-                validFileUris // Pass the set of active file URIs for filtering
+                {
+                    signal: this.abortController.signal,
+                    cachedContentName: cachedContentName,
+                    enableThinking: this.isThinkingEnabled, // Pass the UI state override
+                    systemInstruction: systemInstruction || undefined,
+                    generation: generation,
+                    validFileUris: validFileUris, // Pass the set of active file URIs for filtering
+                    onUpdate: streamingMessage ? (partial) => streamingMessage.update(partial) : undefined,
+                    // Vault tools rely on Gemini function calling
+                    toolExecutor: isGemini && this.plugin.settings.enableVaultTools
+                        ? (name, args) => this.vaultTools.execute(name, args)
+                        : undefined
+                }
             );
+            // Recorded before anything is saved, so a failed write cannot hide tokens that were billed
+            this.plugin.usageLedger.record(responseMsg, {
+                provider: provider.id,
+                model: modelName,
+                chat: this.currentChatFile
+            });
 
 			loadingEl.remove();
+            streamingMessage?.remove();
 
+            stampMessage(responseMsg);
+            responseMsg.model = modelName;
+            if (hasGenerationParameters(generation)) {
+                responseMsg.generationConfig = generation;
+            }
+            if (turn.passages && turn.passages.length > 0) {
+                responseMsg.sources = turn.passages.map(({ path, heading, line }) => ({ path, heading, line }));
+            }
+            await this.saveGeneratedImages(responseMsg);
+            this.addToBranch(responseMsg);
 			this.addMessage(responseMsg);
-            this.history.push(responseMsg);
 
             const savedFile = await this.chatHistoryService.appendMessage(
                 this.plugin.settings.chatHistoryFolder,
@@ -747,19 +1493,48 @@ class GeminiChatView extends ItemView {
                 undefined
             );
             this.currentChatFile = savedFile;
+            if (this.linkChoicesUnsaved) {
+                await this.saveLinkChoices();
+            }
+            await this.saveActiveBranch();
 
 		} catch (error) {
             loadingEl.remove();
-            
+            streamingMessage?.remove();
+
+            // Tool rounds that completed before the failure were still billed
+            if (error.usageMetadata) {
+                this.plugin.usageLedger.record({ role: 'model', content: '', usageMetadata: error.usageMetadata }, {
+                    provider: provider.id,
+                    model: modelName,
+                    chat: this.currentChatFile
+                });
+            }
+
             if (error.name === 'AbortError') {
                 new Notice('Generation stopped.');
             } else {
                 console.error('Gemini Error:', error);
                 new Notice(`Gemini Error: ${error.message}`);
-                this.addMessage({
+                const errorRow = await this.addMessage({
                     role: 'model', 
                     content: `❌ **Error:** ${error.message}\n\ngeneration aborted.` 
                 });
+
+                // Transient failures (quota, overload, network) are worth retrying; others usually need a settings change
+                const retryBtn = new ButtonComponent(errorRow.createDiv({ cls: 'gemini-error-actions' }))
+                    .setButtonText('Retry')
+                    .onClick(() => {
+                        if (this.abortController) {
+                            new Notice('Please wait for the current response to finish.');
+                            return;
+                        }
+                        errorRow.remove();
+                        this.requestResponse(turn);
+                    });
+                if (error instanceof GeminiApiError && error.retryable) {
+                    retryBtn.setCta();
+                }
             }
 		} finally {
             this.abortController = null;
@@ -767,21 +1542,563 @@ class GeminiChatView extends ItemView {
         }
 	}
 
-	async addMessage(msg: GeminiChatMessage) {
+    /**
+     * Applies the daily and monthly budgets to a request. Warns once per limit and period
+     * when usage gets close. Once a limit is reached, the request is refused or, for Gemini,
+     * sent to the configured fallback model instead.
+     */
+    enforceBudget(provider: ChatProvider): { model: string; exceeded: boolean } {
+        const settings = this.plugin.settings;
+        if (!isBudgeted({ provider: provider.id })) {
+            return { model: this.currentModel, exceeded: false };
+        }
+
+        const status = getBudgetStatus(this.plugin.usageLedger.getEntries(), settings);
+        status.near.forEach(usage => this.warnBudget(usage));
+        if (status.exceeded.length === 0) {
+            return { model: this.currentModel, exceeded: false };
+        }
+
+        const reached = status.exceeded.map(describeBudgetUsage).join(', ');
+        const fallback = settings.budgetFallbackModel.trim();
+        if (settings.budgetAction === 'downgrade' && provider.id === 'gemini' && fallback) {
+            if (fallback !== this.currentModel) {
+                new Notice(`Budget reached (${reached}). Using ${fallback} instead of ${this.currentModel}.`);
+            }
+            return { model: fallback, exceeded: true };
+        }
+        throw new Error(`Budget reached (${reached}). Requests are paused until the limit resets. Limits can be changed in the plugin settings.`);
+    }
+
+    /**
+     * Refuses a counted request whose input alone would take usage over a limit.
+     */
+    enforceRequestBudget(provider: ChatProvider, modelName: string, promptTokens: number) {
+        const pending = {
+            timestamp: Date.now(),
+            provider: provider.id,
+            model: modelName,
+            purpose: 'chat' as const,
+            promptTokens: promptTokens,
+            candidatesTokens: 0,
+            thoughtsTokens: 0,
+            cachedTokens: 0
+        };
+        const status = getBudgetStatus(this.plugin.usageLedger.getEntries(), this.plugin.settings, pending);
+        if (status.exceeded.length === 0) return;
+
+        const price = findModelPrice(modelName, this.plugin.settings.modelPrices);
+        const cost = price ? ` (about $${(promptTokens * price.input / 1_000_000).toFixed(2)})` : '';
+        throw new Error(`This request needs ${promptTokens.toLocaleString()} input tokens${cost}, which would exceed the budget (${status.exceeded.map(describeBudgetUsage).join(', ')}). Remove some context or raise the limit in the plugin settings.`);
+    }
+
+    warnBudget(usage: BudgetUsage) {
+        const now = new Date();
+        const period = usage.period === 'day' ? now.toDateString() : `${now.getFullYear()}-${now.getMonth() + 1}`;
+        const key = `${usage.period}:${usage.kind}:${period}`;
+        if (this.budgetWarnings.has(key)) return;
+        this.budgetWarnings.add(key);
+        new Notice(`Gemini budget almost used up: ${describeBudgetUsage(usage)}.`, 10000);
+    }
+
+    /**
+     * Tells the user that the request did not fit the context window, which items
+     * cost the most and how it was trimmed.
+     */
+    showContextWarning(result: ContextGuardResult, modelName: string) {
+        const model = this.plugin.modelCatalog.getModel(modelName);
+        new Notice(createFragment(frag => {
+            frag.createEl('strong', { text: `Context too large for ${model.name} (limit ${model.inputTokenLimit?.toLocaleString()} tokens).` });
+            frag.createEl('div', { text: 'Largest items:' });
+            const list = frag.createEl('ul');
+            for (const item of result.largestItems) {
+                list.createEl('li', { text: `${item.label}: ~${item.tokens.toLocaleString()} tokens` });
+            }
+            if (result.actions.length > 0) {
+                frag.createEl('div', { text: `To fit, the request ${result.actions.join(', then ')} (now ${result.totalTokens?.toLocaleString()} tokens).` });
+            }
+        }), 15000);
+    }
+
+    /**
+     * Turns the typed text, context files and linked notes of a turn into request parts.
+     * Media files go to the Gemini Files API (the first one into an explicit cache),
+     * or inline as images for other providers.
+     */
+    async buildUserParts(
+        turn: PendingTurn,
+        provider: ChatProvider,
+        modelName: string,
+        systemInstruction: string | null,
+        validFileUris?: Set<string>
+    ): Promise<{ parts: any[]; attachments: ContextAttachment[]; cachedContentName?: string; cachedFile?: string }> {
+        const { text, selectedFiles, activeFile, passages, collections, linkedNotes } = turn;
+        const isGemini = provider.id === 'gemini';
+
+        const messageParts: any[] = [];
+        const noteParts: any[] = [];
+        const attachments: ContextAttachment[] = [];
+        let cachedContentName: string | undefined = undefined;
+        let cachedFile: string | undefined = undefined;
+
+        // --- 1. Collect & Deduplicate Files ---
+        const filesToProcess: TFile[] = [];
+        const processedPaths = new Set<string>();
+
+        // Priority 1: Active File (if enabled)
+        if (activeFile) {
+            filesToProcess.push(activeFile);
+            processedPaths.add(activeFile.path);
+        }
+
+        // Priority 2: Selected Files (Add File)
+        // Ensure we maintain the order of selectedFiles
+        for (const file of selectedFiles) {
+            if (!processedPaths.has(file.path)) {
+                filesToProcess.push(file);
+                processedPaths.add(file.path);
+            }
+        }
+
+        // --- 2. Categorize Files ---
+        const mediaFiles = filesToProcess.filter(f => this.fileManager.isMediaFile(f));
+        const textFiles = filesToProcess.filter(f => !this.fileManager.isMediaFile(f));
+
+        // Other providers cannot use the Gemini Files API: send images inline, skip other media
+        if (!isGemini) {
+            for (const file of mediaFiles) {
+                if (!this.fileManager.isImage(file)) {
+                    new Notice(`${file.basename} skipped: ${PROVIDER_NAMES[provider.id]} models only accept images and text.`);
+                    continue;
+                }
+                const data = arrayBufferToBase64(await this.app.vault.readBinary(file));
+                const part = {
+                    inline_data: {
+                        mime_type: this.fileManager.getMimeType(file.extension) || 'image/png',
+                        data: data
+                    }
+                };
+                messageParts.push(part);
+                attachments.push({ label: file.basename, part });
+            }
+        }
+
+        // Process Media Files (Upload & Cache)
+        // Strategy: Try to explicitly cache the FIRST media file. 
+        // If successful, use it as cachedContent. Subsequent files are standard file_data.
+        for (let i = 0; isGemini && i < mediaFiles.length; i++) {
+            const file = mediaFiles[i];
+            try {
+                const fileUri = await this.fileManager.uploadFile(file, this.plugin.settings.apiKey);
+                
+                if (validFileUris) {
+                    validFileUris.add(fileUri);
+                }
+
+                const mimeType = this.fileManager.getMimeType(file.extension) || 'application/octet-stream';
+                
+                let useExplicitCache = false;
+
+                // Only attempt explicit caching for the FIRST file, and only if no cache is set yet
+                if (i === 0 && !cachedContentName && this.plugin.modelCatalog.getModel(modelName).supportsCaching) {
+                    const cacheName = await this.fileManager.ensureExplicitCache(
+                        file, 
+                        fileUri, 
+                        mimeType, 
+                        modelName, 
+                        this.plugin.settings.apiKey,
+                        this.plugin.settings, // Pass settings for tool config
+                        systemInstruction
+                    );
+                    
+                    if (cacheName) {
+                        cachedContentName = cacheName;
+                        cachedFile = file.path;
+                        useExplicitCache = true;
+                        new Notice(`Using explicit cache for ${file.basename}`);
+                    }
+                }
+
+                // If NOT using explicit cache (either failed, or not the first file), add as file_data part
+                if (!useExplicitCache) {
+                    const part = this.createFilePart(fileUri, mimeType, modelName);
+                    messageParts.push(part);
+                    attachments.push({ label: file.basename, part });
+                } else {
+                    // If using explicit cache, the file is already in the cache context.
+                    // We DO NOT add it to messageParts.
+                }
+
+                if (!useExplicitCache) {
+                    new Notice(`Uploaded ${file.basename}`);
+                }
+
+            } catch (err) {
+                throw new Error(`Failed to upload ${file.basename}: ${err.message}`);
+            }
+        }
+
+        // Process Text Files. Each note is its own part so the context guard can drop it.
+        for (const file of textFiles) {
+            try {
+                const content = await this.app.vault.read(file);
+                // Use the captured activeFile for comparison
+                const label = (activeFile && file.path === activeFile.path) ? "Active Note" : "Selected Note";
+                const part = { text: `--- Content of ${label} [[${file.path}]] ---\n${content}\n--- End of ${label} ---` };
+                noteParts.push(part);
+                attachments.push({ label: file.basename, part });
+            } catch (err) {
+                console.error(`Failed to read ${file.path}:`, err);
+            }
+        }
+
+        // Notes around the active note, nearest first
+        for (const { file, hops } of linkedNotes || []) {
+            if (processedPaths.has(file.path)) continue;
+            processedPaths.add(file.path);
+            try {
+                const content = await this.app.vault.cachedRead(file);
+                const distance = hops === 1 ? 'linked with the active note' : `${hops} links away from the active note`;
+                const part = { text: `--- Content of Related Note [[${file.path}]] (${distance}) ---\n${content}\n--- End of Related Note ---` };
+                noteParts.push(part);
+                attachments.push({ label: file.basename, part });
+            } catch (err) {
+                console.error(`Failed to read ${file.path}:`, err);
+            }
+        }
+
+        // Notes of folder, tag and search collections, in the collection's order
+        for (const resolved of collections || []) {
+            const source = `${resolved.collection.kind} ${describeCollection(resolved.collection)}`;
+            for (const file of resolved.files) {
+                if (processedPaths.has(file.path)) continue;
+                processedPaths.add(file.path);
+                try {
+                    const content = await this.app.vault.cachedRead(file);
+                    const part = { text: `--- Content of Note [[${file.path}]] from ${source} ---\n${content}\n--- End of Note ---` };
+                    noteParts.push(part);
+                    attachments.push({ label: file.basename, part });
+                } catch (err) {
+                    console.error(`Failed to read ${file.path}:`, err);
+                }
+            }
+        }
+
+        // [[Note]], [[Note#Heading]] and [[Note#^block]] links (embedded or not) send the note or just that part
+        this.linkWarnings = [];
+        this.renderContextChips();
+        if (text) {
+            const linkRegex = /(!?)\[\[([^\]]+)\]\]/g;
+            const matches = Array.from(text.matchAll(linkRegex));
+            if (matches.length > 0) {
+                new Notice(`Reading ${matches.length} linked text note(s)...`);
+                const seen = new Set<string>();
+                for (const match of matches) {
+                    const { target, subpath } = this.noteService.parseLink(match[2]);
+                    const cleanLink = `${target}${subpath}`;
+                    const file = await this.resolveLinkedNote(target);
+                    if (!file || seen.has(`${file.path}${subpath}`)) continue;
+                    seen.add(`${file.path}${subpath}`);
+
+                    let content = await this.noteService.readLinkedText(file, subpath);
+                    if (content === null) {
+                        this.addLinkWarning(`${subpath} not found in ${file.basename}, sent the whole note`);
+                        content = await this.noteService.readLinkedText(file, '');
+                    }
+                    const part = { text: `--- Content of Linked Note [[${cleanLink}]] ---\n${content}\n--- End of Linked Note ---` };
+                    noteParts.push(part);
+                    attachments.push({ label: subpath ? `${file.basename}${subpath}` : file.basename, part });
+                }
+            }
+        }
+
+        for (const passage of passages || []) {
+            const part = { text: formatPassage(passage) };
+            noteParts.push(part);
+            attachments.push({ label: describePassage(passage), part });
+        }
+
+        if (text.trim()) {
+            messageParts.push({ text: text.trim() });
+        }
+        messageParts.push(...noteParts);
+
+        if (messageParts.length === 0 && !cachedContentName) {
+            throw new Error("No content to send (upload failed or empty).");
+        }
+
+        return { parts: messageParts, attachments, cachedContentName, cachedFile };
+    }
+
+    private createFilePart(fileUri: string, mimeType: string, modelName: string): any {
+        const part: any = {
+            file_data: {
+                mime_type: mimeType,
+                file_uri: fileUri
+            }
+        };
+
+        if (this.plugin.modelCatalog.getModel(modelName).supportsMediaResolution && this.plugin.settings.mediaResolution !== 'auto') {
+            part.media_resolution = {
+                level: `media_resolution_${this.plugin.settings.mediaResolution}`
+            };
+        }
+        return part;
+    }
+
+    /**
+     * Finds or recreates the explicit cache that holds the media of a question that is
+     * asked again. If no cache can be made now, the file is added to the question's parts.
+     */
+    private async resolveCachedFile(
+        userMsg: GeminiChatMessage,
+        modelName: string,
+        systemInstruction: string | null,
+        validFileUris?: Set<string>
+    ): Promise<string | undefined> {
+        const path = userMsg.cachedFile!;
+        const file = this.app.vault.getAbstractFileByPath(path);
+        if (!(file instanceof TFile)) {
+            throw new Error(`${path} was sent with this question but is no longer in the vault.`);
+        }
+
+        const apiKey = this.plugin.settings.apiKey;
+        const fileUri = await this.fileManager.uploadFile(file, apiKey);
+        validFileUris?.add(fileUri);
+        const mimeType = this.fileManager.getMimeType(file.extension) || 'application/octet-stream';
+
+        if (this.plugin.modelCatalog.getModel(modelName).supportsCaching) {
+            const cacheName = await this.fileManager.ensureExplicitCache(
+                file, fileUri, mimeType, modelName, apiKey, this.plugin.settings, systemInstruction
+            );
+            if (cacheName) return cacheName;
+        }
+
+        userMsg.parts = [this.createFilePart(fileUri, mimeType, modelName), ...(userMsg.parts || [])];
+        delete userMsg.cachedFile;
+        return undefined;
+    }
+
+    /**
+     * Resolves the note of a link in a message. Ambiguous names ask the user once per chat;
+     * names that match no note, or a closed picker, leave a warning chip.
+     */
+    async resolveLinkedNote(target: string): Promise<TFile | null> {
+        const key = target.toLowerCase();
+        const remembered = this.linkChoices[key] ? this.app.vault.getAbstractFileByPath(this.linkChoices[key]) : null;
+        if (remembered instanceof TFile) {
+            return remembered;
+        }
+
+        const resolution = await this.noteService.resolveNoteFile(target);
+        if (resolution.type === 'resolved') {
+            return resolution.file;
+        }
+        if (resolution.type === 'not_found') {
+            this.addLinkWarning(`[[${target}]] not found`);
+            return null;
+        }
+
+        const file = await new Promise<TFile | null>(resolve => new NotePickerModal(this.app, target, resolution.matches, resolve).open());
+        if (!file) {
+            this.addLinkWarning(`[[${target}]] skipped: no note picked`);
+            return null;
+        }
+        this.linkChoices[key] = file.path;
+        await this.saveLinkChoices();
+        return file;
+    }
+
+    /**
+     * Writes the link choices into the chat note. In a new chat, whose note is still
+     * being created, they are written once it exists.
+     */
+    async saveLinkChoices() {
+        if (!this.currentChatFile) {
+            this.linkChoicesUnsaved = true;
+            return;
+        }
+        this.linkChoicesUnsaved = false;
+        await this.chatHistoryService.updateChatMetadata(
+            this.plugin.settings.chatHistoryFolder,
+            this.currentChatFile,
+            { linkChoices: this.linkChoices }
+        );
+    }
+
+    addLinkWarning(warning: string) {
+        this.linkWarnings.push(warning);
+        this.renderContextChips();
+    }
+
+    /**
+     * Saves images generated by the model into the chat's Attachments folder and
+     * embeds them in the message, so they show up in the saved chat note.
+     */
+    async saveGeneratedImages(msg: GeminiChatMessage) {
+        const images = (msg.parts || []).filter((p: any) => this.apiClient.isGeneratedImage(p));
+        const embeds: string[] = [];
+        const savedParts = new Map<any, string>();
+        const stamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
+
+        for (let i = 0; i < images.length; i++) {
+            const inline = images[i].inlineData || images[i].inline_data;
+            const mimeType: string = inline.mimeType || inline.mime_type;
+            const extension = mimeType === 'image/jpeg' ? 'jpg' : mimeType.split('/')[1].split('+')[0];
+            try {
+                const path = await this.chatHistoryService.saveAttachment(
+                    this.plugin.settings.chatHistoryFolder,
+                    `Gemini image ${stamp}${images.length > 1 ? `-${i + 1}` : ''}`,
+                    extension,
+                    base64ToArrayBuffer(inline.data)
+                );
+                embeds.push(`![[${path}]]`);
+                savedParts.set(images[i], path);
+            } catch (err) {
+                console.error('Failed to save generated image:', err);
+                new Notice(`Failed to save generated image: ${err.message}`);
+            }
+        }
+
+        if (embeds.length > 0) {
+            msg.content = [msg.content, ...embeds].filter(Boolean).join('\n\n');
+            // The image data is in the vault now; keep only a link, so it is neither stored in the chat note nor sent again
+            msg.parts = (msg.parts || []).map((part: any) => savedParts.has(part)
+                ? { text: `![[${savedParts.get(part)}]]`, ...(part.thoughtSignature ? { thoughtSignature: part.thoughtSignature } : {}) }
+                : part);
+        }
+    }
+
+    /**
+     * Creates a placeholder bubble that renders a streamed response as it arrives.
+     * The bubble is only added on the first update, replacing the loading indicator,
+     * and is removed once the final message is rendered through addMessage.
+     */
+    createStreamingMessage(loadingEl: HTMLElement) {
+        let rowEl: HTMLElement | null = null;
+        let thoughtDetails: HTMLDetailsElement;
+        let thoughtContent: HTMLElement;
+        let toolStepsEl: HTMLElement;
+        let contentEl: HTMLElement;
+        let latest: GeminiChatMessage | null = null;
+        let renderedToolCalls = 0;
+
+        const render = debounce(async () => {
+            if (!rowEl || !latest) return;
+            const msg = latest;
+            const hasAnswer = !!msg.parts?.some((p: any) => !p.thought && (p.text || p.executableCode || p.codeExecutionResult));
+
+            if (msg.thought) {
+                thoughtDetails.style.display = '';
+                // Keep the thoughts open while the model is still thinking
+                thoughtDetails.open = !hasAnswer;
+                const nextThought = createDiv();
+                await MarkdownRenderer.render(this.app, msg.thought, nextThought, '', this);
+                thoughtContent.replaceChildren(nextThought);
+            }
+
+            if (msg.toolCalls && msg.toolCalls.length > renderedToolCalls) {
+                this.renderToolCalls(toolStepsEl, msg.toolCalls.slice(renderedToolCalls));
+                renderedToolCalls = msg.toolCalls.length;
+            }
+
+            if (hasAnswer) {
+                const nextContent = createDiv();
+                await MarkdownRenderer.render(this.app, msg.content, nextContent, '', this);
+                contentEl.replaceChildren(nextContent);
+            }
+
+            this.messagesContainer.scrollTop = this.messagesContainer.scrollHeight;
+        }, 100, false);
+
+        return {
+            update: (msg: GeminiChatMessage) => {
+                if (!rowEl) {
+                    loadingEl.remove();
+                    rowEl = this.messagesContainer.createDiv({ cls: 'gemini-chat-row model' });
+                    const msgEl = rowEl.createDiv({ cls: 'gemini-chat-message model is-streaming' });
+                    thoughtDetails = msgEl.createEl('details', { cls: 'gemini-thinking-process' });
+                    thoughtDetails.style.display = 'none';
+                    thoughtDetails.createEl('summary', { text: 'Thinking Process' });
+                    thoughtContent = thoughtDetails.createDiv({ cls: 'gemini-thinking-content' });
+                    toolStepsEl = msgEl.createDiv({ cls: 'gemini-tool-steps' });
+                    contentEl = msgEl.createDiv({ cls: 'gemini-streaming-content' });
+                }
+                latest = msg;
+                render();
+            },
+            remove: () => {
+                render.cancel();
+                rowEl?.remove();
+            }
+        };
+    }
+
+    /**
+     * Renders each vault tool call as a collapsed step showing its arguments and result.
+     */
+    renderToolCalls(container: HTMLElement, toolCalls: GeminiToolCall[]) {
+        for (const call of toolCalls) {
+            const stepEl = container.createEl('details', { cls: 'gemini-tool-step' });
+            const argsText = Object.entries(call.args)
+                .map(([key, value]) => `${key}: ${JSON.stringify(value)}`)
+                .join(', ');
+            const summaryEl = stepEl.createEl('summary');
+            setIcon(summaryEl.createSpan({ cls: 'gemini-tool-step-icon' }), call.response.error ? 'alert-triangle' : 'wrench');
+            summaryEl.createSpan({ text: `${call.name}(${argsText})` });
+
+            const responseText = JSON.stringify(call.response, null, 2);
+            stepEl.createEl('pre', { cls: 'gemini-tool-step-response' }).setText(
+                responseText.length > 4000 ? responseText.slice(0, 4000) + '\n…' : responseText
+            );
+        }
+    }
+
+	async addMessage(msg: GeminiChatMessage): Promise<HTMLElement> {
         const rowEl = this.messagesContainer.createDiv({ cls: `gemini-chat-row ${msg.role}` });
 
         if (msg.images && msg.images.length > 0) {
             const imagesEl = rowEl.createDiv({ cls: 'gemini-chat-images' });
             for (const imgPath of msg.images) {
+                const file = this.app.vault.getAbstractFileByPath(imgPath);
+                if (!(file instanceof TFile)) continue;
                 imagesEl.createEl('img', {
-                    attr: { src: imgPath, class: 'gemini-chat-image-thumb' }
+                    attr: { src: this.app.vault.getResourcePath(file), class: 'gemini-chat-image-thumb' }
                 }).onClickEvent(() => {
                 });
             }
         }
 
 		const msgEl = rowEl.createDiv({ cls: `gemini-chat-message ${msg.role}` });
+        if (msg.timestamp) {
+            // Worked out on hover, so "5 minutes ago" stays current
+            const time = moment(msg.timestamp);
+            msgEl.addEventListener('mouseenter', () => {
+                msgEl.setAttribute('title', time.isValid() ? `${time.fromNow()} · ${time.format('LLL')}` : msg.timestamp as string);
+            });
+        }
         const actionsEl = msgEl.createDiv({ cls: 'gemini-chat-message-actions' });
+
+        const siblings = this.messages.includes(msg) ? getSiblings(this.messages, msg) : [];
+        if (siblings.length > 1) {
+            const position = siblings.indexOf(msg);
+            const navEl = actionsEl.createDiv({ cls: 'gemini-branch-nav' });
+            const prevBtn = navEl.createDiv({ cls: 'gemini-copy-btn', attr: { 'title': 'Previous version' } });
+            setIcon(prevBtn, 'chevron-left');
+            prevBtn.toggleClass('is-disabled', position === 0);
+            prevBtn.onClickEvent((e) => {
+                e.stopPropagation();
+                this.switchSibling(msg, -1);
+            });
+            navEl.createSpan({ cls: 'gemini-branch-position', text: `${position + 1}/${siblings.length}` });
+            const nextBtn = navEl.createDiv({ cls: 'gemini-copy-btn', attr: { 'title': 'Next version' } });
+            setIcon(nextBtn, 'chevron-right');
+            nextBtn.toggleClass('is-disabled', position === siblings.length - 1);
+            nextBtn.onClickEvent((e) => {
+                e.stopPropagation();
+                this.switchSibling(msg, 1);
+            });
+        }
         
         if (msg.role === 'user') {
             const editBtn = actionsEl.createDiv({ cls: 'gemini-copy-btn', attr: { 'title': 'Edit & Resend' } });
@@ -793,11 +2110,40 @@ class GeminiChatView extends ItemView {
                 textToEdit = textToEdit.replace(/^\*\*Attachments:\*\*.*\n*/gm, '');
                 textToEdit = textToEdit.replace(/\n*\*\*Active Note:\*\*.*$/gm, '');
                 textToEdit = textToEdit.replace(/^\*\*Active Note:\*\*.*\n*/gm, '');
+                // The chat is only branched off when the edited text is sent
+                this.editedMessage = msg;
                 this.inputTextArea.setValue(textToEdit.trim());
                 this.inputTextArea.inputEl.focus();
             });
         }
 
+        // Welcome and error messages are only shown, so they get no history actions
+        const inHistory = this.history.includes(msg);
+        if (msg.role === 'model' && inHistory) {
+            const regenerateBtn = actionsEl.createDiv({ cls: 'gemini-copy-btn', attr: { 'title': 'Regenerate response' } });
+            setIcon(regenerateBtn, 'refresh-cw');
+            regenerateBtn.onClickEvent((e) => {
+                e.stopPropagation();
+                this.regenerateResponse(msg);
+            });
+        }
+
+        if (inHistory) {
+            const rewindBtn = actionsEl.createDiv({ cls: 'gemini-copy-btn', attr: { 'title': 'Rewind to here' } });
+            setIcon(rewindBtn, 'undo-2');
+            rewindBtn.onClickEvent((e) => {
+                e.stopPropagation();
+                this.rewindTo(msg);
+            });
+
+            const deleteBtn = actionsEl.createDiv({ cls: 'gemini-copy-btn', attr: { 'title': 'Delete question, answers and everything after them' } });
+            setIcon(deleteBtn, 'trash-2');
+            deleteBtn.onClickEvent((e) => {
+                e.stopPropagation();
+                this.deleteMessage(msg);
+            });
+        }
+
         const copyBtn = actionsEl.createDiv({ cls: 'gemini-copy-btn', attr: { 'title': 'Copy message' } });
         setIcon(copyBtn, 'copy');
         copyBtn.onClickEvent((e) => {
@@ -824,6 +2170,10 @@ class GeminiChatView extends ItemView {
             );
         }
 
+        if (msg.toolCalls && msg.toolCalls.length > 0) {
+            this.renderToolCalls(msgEl.createDiv({ cls: 'gemini-tool-steps' }), msg.toolCalls);
+        }
+
 		await MarkdownRenderer.render(
 			this.app,
 			msg.content,
@@ -870,12 +2220,55 @@ class GeminiChatView extends ItemView {
             }
         }
 
-        if (msg.usageMetadata) {
+        if (msg.sources && msg.sources.length > 0) {
+            const sourcesEl = msgEl.createDiv({ cls: 'gemini-context-sources' });
+            sourcesEl.createSpan({ text: 'Vault sources: ', cls: 'gemini-context-sources-label' });
+            msg.sources.forEach((source, i) => {
+                if (i > 0) sourcesEl.createSpan({ text: ', ' });
+                const link = sourcesEl.createEl('a', { text: describePassage(source), href: '#', attr: { title: `${source.path}:${source.line + 1}` } });
+                link.addEventListener('click', (e) => {
+                    e.preventDefault();
+                    openPassage(this.app, source.path, source.line);
+                });
+            });
+        }
+
+        const finish = msg.role === 'model' ? describeFinish(msg) : null;
+        if (finish) {
+            const bannerEl = msgEl.createDiv({ cls: 'gemini-finish-banner' });
+            setIcon(bannerEl.createSpan({ cls: 'gemini-finish-banner-icon' }), finish.canContinue ? 'scissors' : 'shield-alert');
+            bannerEl.createSpan({ cls: 'gemini-finish-banner-text', text: finish.text });
+            const bannerActions = bannerEl.createDiv({ cls: 'gemini-finish-banner-actions' });
+            if (finish.canContinue) {
+                new ButtonComponent(bannerActions)
+                    .setButtonText('Continue')
+                    .setCta()
+                    .onClick(() => this.continueResponse());
+            }
+            new ButtonComponent(bannerActions)
+                .setButtonText('Resend with changed settings')
+                .onClick(() => this.resendWithChangedSettings(msg));
+        }
+
+        if (msg.usageMetadata || msg.generationConfig || msg.model) {
             const metaEl = msgEl.createDiv({ cls: 'gemini-chat-meta', attr: { style: 'font-size: 0.75em; color: var(--text-muted); margin-top: 5px; text-align: right;' } });
-            metaEl.setText(`Tokens: ${msg.usageMetadata.totalTokenCount} (In: ${msg.usageMetadata.promptTokenCount}, Out: ${msg.usageMetadata.candidatesTokenCount})`);
+            const metaItems: string[] = [];
+            if (msg.model) {
+                metaItems.push(msg.model);
+            }
+            if (msg.usageMetadata) {
+                const { totalTokenCount, promptTokenCount, candidatesTokenCount, thoughtsTokenCount, cachedContentTokenCount } = msg.usageMetadata;
+                const extra = `${thoughtsTokenCount ? `, Thoughts: ${thoughtsTokenCount}` : ''}${cachedContentTokenCount ? `, Cached: ${cachedContentTokenCount}` : ''}`;
+                metaItems.push(`Tokens: ${totalTokenCount} (In: ${promptTokenCount}, Out: ${candidatesTokenCount}${extra})`);
+            }
+            if (msg.generationConfig) {
+                metaItems.push(describeGenerationParameters(msg.generationConfig));
+            }
+            metaEl.setText(metaItems.join(' · '));
         }
 
 		this.messagesContainer.scrollTop = this.messagesContainer.scrollHeight;
+        return rowEl;
 	}
 
 	async onClose() {
@@ -889,6 +2282,7 @@ class GeminiChatView extends ItemView {
 
 class GeminiSettingTab extends PluginSettingTab {
 	plugin: GeminiPlugin;
+	indexStatusRefs: { index: Events; ref: EventRef }[] = []; // Update index status lines while the tab is open
 
 	constructor(app: App, plugin: GeminiPlugin) {
 		super(app, plugin);
@@ -898,9 +2292,83 @@ class GeminiSettingTab extends PluginSettingTab {
 	display(): void {
 		const { containerEl } = this;
 		containerEl.empty();
+		this.stopIndexStatus();
 
 		containerEl.createEl('h2', { text: 'Gemini Copilot Settings' });
 
+        new Setting(containerEl)
+            .setName('Chat Provider')
+            .setDesc('The backend used for new chats. Gemini-only features (file uploads, caching, search grounding, vault tools) are not available with other providers.')
+            .addDropdown(dropdown => {
+                (Object.keys(PROVIDER_NAMES) as ProviderId[]).forEach(id => dropdown.addOption(id, PROVIDER_NAMES[id]));
+                dropdown
+                    .setValue(this.plugin.settings.provider)
+                    .onChange(async (value) => {
+                        this.plugin.settings.provider = value as ProviderId;
+                        await this.plugin.saveSettings();
+                        this.display();
+                    });
+            });
+
+        if (this.plugin.settings.provider === 'openai') {
+            new Setting(containerEl)
+                .setName('OpenAI-compatible Base URL')
+                .setDesc('Base URL of the /v1 API, e.g. https://api.openai.com/v1 or http://localhost:1234/v1 for LM Studio.')
+                .addText(text => text
+                    .setPlaceholder('https://api.openai.com/v1')
+                    .setValue(this.plugin.settings.openAiBaseUrl)
+                    .onChange(async (value) => {
+                        this.plugin.settings.openAiBaseUrl = value;
+                        await this.plugin.saveSettings();
+                    }));
+
+            new Setting(containerEl)
+                .setName('OpenAI-compatible API Key')
+                .setDesc('Sent as a Bearer token. Leave empty for local servers that do not need one.')
+                .addText(text => text
+                    .setPlaceholder('sk-...')
+                    .setValue(this.plugin.settings.openAiApiKey)
+                    .onChange(async (value) => {
+                        this.plugin.settings.openAiApiKey = value;
+                        await this.plugin.saveSettings();
+                    }));
+
+            new Setting(containerEl)
+                .setName('OpenAI-compatible Default Model')
+                .setDesc('Model name used for new chats. Other models reported by the server can be picked in the chat view.')
+                .addText(text => text
+                    .setPlaceholder('gpt-4o-mini')
+                    .setValue(this.plugin.settings.openAiModel)
+                    .onChange(async (value) => {
+                        this.plugin.settings.openAiModel = value;
+                        await this.plugin.saveSettings();
+                    }));
+        }
+
+        if (this.plugin.settings.provider === 'ollama') {
+            new Setting(containerEl)
+                .setName('Ollama Server URL')
+                .setDesc('Address of the Ollama server. The server must allow app://obsidian.md in OLLAMA_ORIGINS, or every request is blocked.')
+                .addText(text => text
+                    .setPlaceholder('http://localhost:11434')
+                    .setValue(this.plugin.settings.ollamaBaseUrl)
+                    .onChange(async (value) => {
+                        this.plugin.settings.ollamaBaseUrl = value;
+                        await this.plugin.saveSettings();
+                    }));
+
+            new Setting(containerEl)
+                .setName('Ollama Default Model')
+                .setDesc('Model name used for new chats, e.g. "llama3.1". Installed models can be picked in the chat view.')
+                .addText(text => text
+                    .setPlaceholder('llama3.1')
+                    .setValue(this.plugin.settings.ollamaModel)
+                    .onChange(async (value) => {
+                        this.plugin.settings.ollamaModel = value;
+                        await this.plugin.saveSettings();
+                    }));
+        }
+
 		new Setting(containerEl)
 			.setName('API Key')
 			.setDesc('Enter your Google Gemini API Key')
@@ -914,18 +2382,30 @@ class GeminiSettingTab extends PluginSettingTab {
 
 		new Setting(containerEl)
 			.setName('Default Model Name')
-			.setDesc('The default Gemini model for new chats.')
-			.addDropdown(dropdown => dropdown
-                .addOption('gemini-3-pro-preview', 'Gemini 3 Pro Preview')
-                .addOption('gemini-3-flash-preview', 'Gemini 3 Flash Preview')
-                .addOption('gemini-2.5-pro', 'Gemini 2.5 Pro')
-                .addOption('gemini-2.5-flash', 'Gemini 2.5 Flash')
-                .addOption('gemini-2.5-flash-lite', 'Gemini 2.5 Flash Lite')
-				.setValue(this.plugin.settings.modelName)
-				.onChange(async (value) => {
-					this.plugin.settings.modelName = value;
-					await this.plugin.saveSettings();
-				}));
+			.setDesc('The default Gemini model for new chats. The list comes from the Gemini API for your key.')
+			.addDropdown(dropdown => {
+                const fillModels = (models: { id: string; name: string }[]) => {
+                    dropdown.selectEl.empty();
+                    if (!models.some(model => model.id === this.plugin.settings.modelName)) {
+                        dropdown.addOption(this.plugin.settings.modelName, this.plugin.settings.modelName);
+                    }
+                    models.forEach(model => dropdown.addOption(model.id, model.name));
+                    dropdown.setValue(this.plugin.settings.modelName);
+                };
+                fillModels(GEMINI_MODELS);
+                this.plugin.modelCatalog.getModels(this.plugin.settings.apiKey).then(fillModels);
+                dropdown.onChange(async (value) => {
+                    this.plugin.settings.modelName = value;
+                    await this.plugin.saveSettings();
+                });
+            })
+            .addExtraButton(button => button
+                .setIcon('refresh-cw')
+                .setTooltip('Refresh model list')
+                .onClick(async () => {
+                    await this.plugin.modelCatalog.getModels(this.plugin.settings.apiKey, true);
+                    this.display();
+                }));
 
 		new Setting(containerEl)
 			.setName('Thinking Level (Gemini 3)')
@@ -949,6 +2429,33 @@ class GeminiSettingTab extends PluginSettingTab {
                     await this.plugin.saveSettings();
                 }));
 
+		new Setting(containerEl)
+			.setName('Persona Folder')
+			.setDesc('Folder of persona notes. Each note\'s text is used as the system instruction when its persona is picked in the chat toolbar.')
+			.addText(text => text
+				.setPlaceholder('Gemini Personas')
+				.setValue(this.plugin.settings.personaFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.personaFolder = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Default Persona')
+			.setDesc('Persona used for new chats.')
+			.addDropdown(dropdown => {
+				dropdown.addOption('', 'No persona');
+				new PersonaService(this.app)
+					.getPersonaNames(this.plugin.settings.personaFolder)
+					.forEach(name => dropdown.addOption(name, name));
+				dropdown
+					.setValue(this.plugin.settings.defaultPersona)
+					.onChange(async (value) => {
+						this.plugin.settings.defaultPersona = value;
+						await this.plugin.saveSettings();
+					});
+			});
+
 		new Setting(containerEl)
 			.setName('Chat History Folder')
 			.setDesc('The folder to save your chat history files. e.g., "Gemini Chats"')
@@ -980,6 +2487,73 @@ class GeminiSettingTab extends PluginSettingTab {
                     await this.plugin.saveSettings();
                 }));
 
+        new Setting(containerEl)
+            .setName('Enable Code Execution')
+            .setDesc('Allow the model to write and run Python code to compute answers. The code and its output are shown in the reply.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.enableCodeExecution)
+                .onChange(async (value) => {
+                    this.plugin.settings.enableCodeExecution = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Enable Vault Tools')
+            .setDesc('Let the model search notes, read notes, list folders and look up backlinks in this vault on its own.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.enableVaultTools)
+                .onChange(async (value) => {
+                    this.plugin.settings.enableVaultTools = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Stream Responses')
+            .setDesc('Show thoughts and answer text as they are generated instead of waiting for the full response.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.enableStreaming)
+                .onChange(async (value) => {
+                    this.plugin.settings.enableStreaming = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('When Context Is Too Large')
+            .setDesc('Gemini requests are counted before sending. If they exceed the model\'s input limit, they are trimmed this way. The saved chat is not changed.')
+            .addDropdown(dropdown => dropdown
+                .addOption('drop_oldest', 'Drop oldest messages')
+                .addOption('drop_largest_attachments', 'Drop largest attachments')
+                .addOption('summarize', 'Summarize earlier messages')
+                .setValue(this.plugin.settings.contextTrimStrategy)
+                .onChange(async (value) => {
+                    this.plugin.settings.contextTrimStrategy = value as ContextTrimStrategy;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Active Note Link Depth')
+            .setDesc('Also send the notes the active note links to and the notes linking to it: 1 = direct links, 2 = their links too. 0 sends the active note only.')
+            .addSlider(slider => slider
+                .setLimits(0, 2, 1)
+                .setValue(this.plugin.settings.activeNoteLinkDepth)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.settings.activeNoteLinkDepth = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Linked Notes Token Budget')
+            .setDesc('Approximate tokens all linked notes may use together. Nearer, then recently modified notes are sent first.')
+            .addText(text => text
+                .setPlaceholder(String(DEFAULT_SETTINGS.linkedNotesTokenBudget))
+                .setValue(String(this.plugin.settings.linkedNotesTokenBudget))
+                .onChange(async (value) => {
+                    const parsed = parseInt(value, 10);
+                    this.plugin.settings.linkedNotesTokenBudget = isNaN(parsed) || parsed <= 0 ? DEFAULT_SETTINGS.linkedNotesTokenBudget : parsed;
+                    await this.plugin.saveSettings();
+                }));
+
         new Setting(containerEl)
             .setName('Media Resolution (Gemini 3)')
             .setDesc('Control resolution for Images and PDFs. High consumes more tokens but improves detail/OCR. Auto uses model defaults.')
@@ -993,5 +2567,282 @@ class GeminiSettingTab extends PluginSettingTab {
                     this.plugin.settings.mediaResolution = value as 'auto' | 'low' | 'medium' | 'high';
                     await this.plugin.saveSettings();
                 }));
+
+        containerEl.createEl('h3', { text: 'Generation Defaults' });
+        containerEl.createEl('p', {
+            text: 'Used by every chat unless overridden from the chat toolbar. Leave a field empty to use the model default.',
+            cls: 'setting-item-description'
+        });
+        renderGenerationControls(containerEl, this.plugin.settings.generationDefaults, async () => {
+            await this.plugin.saveSettings();
+        });
+
+        this.renderModelPrices(containerEl);
+        this.renderBudgets(containerEl);
+        this.renderVaultSearch(containerEl);
+	}
+
+    renderVaultSearch(containerEl: HTMLElement) {
+        const { embeddingIndex, lexicalIndex } = this.plugin;
+        containerEl.createEl('h3', { text: 'Vault Search' });
+
+        new Setting(containerEl)
+            .setName('Semantic Index')
+            .setDesc('Index the vault with the Gemini embeddings API for the "Semantic Search" command. Note contents are sent to Google. Chat notes are not indexed.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.enableSemanticIndex)
+                .onChange(async (value) => {
+                    this.plugin.settings.enableSemanticIndex = value;
+                    await this.plugin.saveSettings();
+                    if (value) {
+                        embeddingIndex.sync();
+                    }
+                }));
+
+        // Wait for typing to finish before starting a new index
+        const rebuildForModel = debounce(() => embeddingIndex.sync(), 1500, true);
+        new Setting(containerEl)
+            .setName('Embedding Model')
+            .setDesc('Changing the model rebuilds the index.')
+            .addText(text => text
+                .setPlaceholder(DEFAULT_SETTINGS.embeddingModel)
+                .setValue(this.plugin.settings.embeddingModel)
+                .onChange(async (value) => {
+                    this.plugin.settings.embeddingModel = value.trim() || DEFAULT_SETTINGS.embeddingModel;
+                    await this.plugin.saveSettings();
+                    rebuildForModel();
+                }));
+
+        const semanticStatus = new Setting(containerEl)
+            .setName('Semantic Index Status')
+            .addButton(button => button
+                .setButtonText('Rebuild')
+                .onClick(() => embeddingIndex.rebuild()));
+        this.watchIndexStatus(embeddingIndex, () => {
+            const stats = embeddingIndex.getStats();
+            let text = `${stats.notes.toLocaleString()} notes, ${stats.passages.toLocaleString()} passages indexed`;
+            if (stats.pending > 0) {
+                text += `, ${stats.pending.toLocaleString()} waiting`;
+            }
+            if (stats.lastError) {
+                text += `. Last error: ${stats.lastError}`;
+            }
+            semanticStatus.setDesc(text);
+        });
+
+        new Setting(containerEl)
+            .setName('Keyword Index')
+            .setDesc('Offline keyword (BM25) index for the "Keyword Search" command. Nothing leaves your device. Built in memory at startup.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.enableLexicalIndex)
+                .onChange(async (value) => {
+                    this.plugin.settings.enableLexicalIndex = value;
+                    await this.plugin.saveSettings();
+                    if (value) {
+                        lexicalIndex.build();
+                    } else {
+                        lexicalIndex.clear();
+                        lexicalIndex.trigger('changed');
+                    }
+                }));
+
+        const lexicalStatus = new Setting(containerEl).setName('Keyword Index Status');
+        this.watchIndexStatus(lexicalIndex, () => {
+            const stats = lexicalIndex.getStats();
+            lexicalStatus.setDesc(`${stats.notes.toLocaleString()} notes, ${stats.passages.toLocaleString()} passages indexed${stats.building ? ' (building…)' : ''}`);
+        });
+
+        new Setting(containerEl)
+            .setName('Auto Context by Default')
+            .setDesc('Turn on "Auto Context" in new chats: relevant passages are searched while you type, shown as removable chips and sent with the question.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.enableAutoContext)
+                .onChange(async (value) => {
+                    this.plugin.settings.enableAutoContext = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Auto Context Index')
+            .setDesc('Index searched for auto context. The other one is used while the preferred index is disabled or not ready.')
+            .addDropdown(dropdown => dropdown
+                .addOption('semantic', 'Semantic (Gemini embeddings)')
+                .addOption('lexical', 'Keyword (offline)')
+                .setValue(this.plugin.settings.autoContextSource)
+                .onChange(async (value) => {
+                    this.plugin.settings.autoContextSource = value as 'semantic' | 'lexical';
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Auto Context Passages')
+            .setDesc('Maximum number of passages added to a question.')
+            .addSlider(slider => slider
+                .setLimits(1, 20, 1)
+                .setValue(this.plugin.settings.autoContextMaxPassages)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.settings.autoContextMaxPassages = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Auto Context Token Budget')
+            .setDesc('Approximate tokens all passages of a question may use together.')
+            .addText(text => text
+                .setPlaceholder(String(DEFAULT_SETTINGS.autoContextTokenBudget))
+                .setValue(String(this.plugin.settings.autoContextTokenBudget))
+                .onChange(async (value) => {
+                    const parsed = parseInt(value, 10);
+                    this.plugin.settings.autoContextTokenBudget = isNaN(parsed) || parsed <= 0 ? DEFAULT_SETTINGS.autoContextTokenBudget : parsed;
+                    await this.plugin.saveSettings();
+                }));
+    }
+
+    /**
+     * Renders an index status now and again whenever the index changes, while the tab is open.
+     */
+    watchIndexStatus(index: Events, update: () => void) {
+        update();
+        this.indexStatusRefs.push({ index, ref: index.on('changed', update) });
+    }
+
+    hide() {
+        this.stopIndexStatus();
+    }
+
+    stopIndexStatus() {
+        this.indexStatusRefs.forEach(({ index, ref }) => index.offref(ref));
+        this.indexStatusRefs = [];
+    }
+
+    /**
+     * Daily and monthly limits, counted from the usage ledger. Local Ollama models are not limited.
+     */
+    renderBudgets(containerEl: HTMLElement) {
+        containerEl.createEl('h3', { text: 'Budgets' });
+        containerEl.createEl('p', {
+            text: 'Limits on tokens (input + output) and estimated cost, checked before every request. You are warned at 80% of a limit. Leave a field empty for no limit.',
+            cls: 'setting-item-description'
+        });
+
+        const limits: { key: 'budgetDailyTokens' | 'budgetMonthlyTokens' | 'budgetDailyCost' | 'budgetMonthlyCost'; name: string; placeholder: string }[] = [
+            { key: 'budgetDailyTokens', name: 'Daily Token Limit', placeholder: 'e.g. 2000000' },
+            { key: 'budgetMonthlyTokens', name: 'Monthly Token Limit', placeholder: 'e.g. 40000000' },
+            { key: 'budgetDailyCost', name: 'Daily Cost Limit (USD)', placeholder: 'e.g. 2' },
+            { key: 'budgetMonthlyCost', name: 'Monthly Cost Limit (USD)', placeholder: 'e.g. 30' }
+        ];
+        for (const limit of limits) {
+            new Setting(containerEl)
+                .setName(limit.name)
+                .addText(text => text
+                    .setPlaceholder(limit.placeholder)
+                    .setValue(this.plugin.settings[limit.key] > 0 ? String(this.plugin.settings[limit.key]) : '')
+                    .onChange(async (value) => {
+                        const parsed = parseFloat(value);
+                        this.plugin.settings[limit.key] = isNaN(parsed) || parsed < 0 ? 0 : parsed;
+                        await this.plugin.saveSettings();
+                    }));
+        }
+
+        new Setting(containerEl)
+            .setName('When a Budget Is Reached')
+            .setDesc('Downgrading only applies to Gemini; other providers are blocked.')
+            .addDropdown(dropdown => dropdown
+                .addOption('block', 'Block requests')
+                .addOption('downgrade', 'Switch to a cheaper model')
+                .setValue(this.plugin.settings.budgetAction)
+                .onChange(async (value) => {
+                    this.plugin.settings.budgetAction = value as 'block' | 'downgrade';
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Fallback Model')
+            .setDesc('Gemini model used once a budget is reached.')
+            .addDropdown(dropdown => {
+                GEMINI_MODELS.forEach(model => dropdown.addOption(model.id, model.name));
+                if (!GEMINI_MODELS.some(model => model.id === this.plugin.settings.budgetFallbackModel)) {
+                    dropdown.addOption(this.plugin.settings.budgetFallbackModel, this.plugin.settings.budgetFallbackModel);
+                }
+                dropdown
+                    .setValue(this.plugin.settings.budgetFallbackModel)
+                    .onChange(async (value) => {
+                        this.plugin.settings.budgetFallbackModel = value;
+                        await this.plugin.saveSettings();
+                    });
+            });
+    }
+
+    /**
+     * Per-model prices for the usage dashboard. Built-in prices can be overridden,
+     * and prices for other models (e.g. OpenAI-compatible ones) added.
+     */
+    renderModelPrices(containerEl: HTMLElement) {
+        containerEl.createEl('h3', { text: 'Model Prices' });
+        containerEl.createEl('p', {
+            text: 'USD per 1M tokens (input / output / cached input), used for cost estimates in the usage dashboard. A price applies to every model whose id starts with the given name. Empty fields use the built-in price.',
+            cls: 'setting-item-description'
+        });
+
+        const prices = this.plugin.settings.modelPrices;
+        const modelIds = Array.from(new Set([...Object.keys(DEFAULT_MODEL_PRICES), ...Object.keys(prices)]));
+
+        for (const id of modelIds) {
+            const fallback = DEFAULT_MODEL_PRICES[id];
+            const setting = new Setting(containerEl).setName(id);
+            (['input', 'output', 'cachedInput'] as const).forEach(field => {
+                setting.addText(text => {
+                    text.inputEl.addClass('gemini-price-input');
+                    text.setPlaceholder(fallback?.[field] !== undefined ? String(fallback[field]) : field === 'cachedInput' ? 'cached' : field)
+                        .setValue(prices[id]?.[field] !== undefined && prices[id][field] !== fallback?.[field] ? String(prices[id][field]) : '')
+                        .onChange(async (value) => {
+                            const parsed = parseFloat(value);
+                            const current = { ...(prices[id] || fallback || { input: 0, output: 0 }) };
+                            if (isNaN(parsed)) {
+                                if (fallback) {
+                                    current[field] = fallback[field] as number;
+                                } else if (field === 'cachedInput') {
+                                    delete current.cachedInput;
+                                } else {
+                                    current[field] = 0;
+                                }
+                            } else {
+                                current[field] = parsed;
+                            }
+                            prices[id] = current;
+                            await this.plugin.saveSettings();
+                        });
+                });
+            });
+            if (prices[id]) {
+                setting.addExtraButton(button => button
+                    .setIcon(fallback ? 'rotate-ccw' : 'trash')
+                    .setTooltip(fallback ? 'Reset to built-in price' : 'Remove')
+                    .onClick(async () => {
+                        delete prices[id];
+                        await this.plugin.saveSettings();
+                        this.display();
+                    }));
+            }
+        }
+
+        let newModelId = '';
+        new Setting(containerEl)
+            .setName('Add Model Price')
+            .setDesc('Model id or id prefix, e.g. gpt-4o-mini.')
+            .addText(text => text
+                .setPlaceholder('model-id')
+                .onChange(value => {
+                    newModelId = value.trim();
+                }))
+            .addButton(button => button
+                .setButtonText('Add')
+                .onClick(async () => {
+                    if (!newModelId || prices[newModelId] || DEFAULT_MODEL_PRICES[newModelId]) return;
+                    prices[newModelId] = { input: 0, output: 0 };
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
 	}
 }
\ No newline at end of file
@@ -0,0 +1,88 @@
+import { GeminiChatMessage } from "./types";
+
+/**
+ * Replies to `parentId` (null for the first messages of the chat), oldest first.
+ */
+export function getChildren(messages: GeminiChatMessage[], parentId: string | null): GeminiChatMessage[] {
+    return messages.filter(msg => (msg.parentId ?? null) === parentId);
+}
+
+/**
+ * Other versions of a message: the messages with the same parent, including itself.
+ */
+export function getSiblings(messages: GeminiChatMessage[], msg: GeminiChatMessage): GeminiChatMessage[] {
+    return getChildren(messages, msg.parentId ?? null);
+}
+
+/**
+ * The branch that ends with `endId`: the message and its ancestors. Without `endId`,
+ * or if that message is gone, the newest branch of the chat.
+ */
+export function getBranch(messages: GeminiChatMessage[], endId?: string | null): GeminiChatMessage[] {
+    const end = endId ? messages.find(msg => msg.id === endId) : undefined;
+    return end ? getAncestors(messages, end) : getBranchThrough(messages, null);
+}
+
+/**
+ * The branch through a message: its ancestors, the message itself and then the newest
+ * reply at each level. Without `throughId`, the newest branch from the start of the chat.
+ */
+export function getBranchThrough(messages: GeminiChatMessage[], throughId: string | null): GeminiChatMessage[] {
+    const through = throughId ? messages.find(msg => msg.id === throughId) : undefined;
+    const branch = through ? getAncestors(messages, through) : [];
+    const seen = new Set(branch);
+
+    let children = getChildren(messages, through?.id ?? null);
+    while (children.length > 0) {
+        const newest = children[children.length - 1];
+        if (seen.has(newest)) break;
+        seen.add(newest);
+        branch.push(newest);
+        children = getChildren(messages, newest.id ?? null);
+    }
+    return branch;
+}
+
+/**
+ * The end to pass to getBranch for showing `branch` again: the id of its last message,
+ * or undefined for the newest branch, which getBranch returns without an end.
+ */
+export function getBranchEnd(messages: GeminiChatMessage[], branch: GeminiChatMessage[]): string | undefined {
+    const newest = getBranchThrough(messages, null);
+    const isNewest = newest.length === branch.length && newest.every((msg, i) => msg === branch[i]);
+    return isNewest ? undefined : branch[branch.length - 1]?.id;
+}
+
+/**
+ * The chat without a question: removes the question of `msg` (the message itself, or the
+ * question a reply answers) together with every version of its reply and all later messages.
+ */
+export function removeTurn(messages: GeminiChatMessage[], msg: GeminiChatMessage): GeminiChatMessage[] {
+    const parent = msg.parentId ? messages.find(m => m.id === msg.parentId) : undefined;
+    const question = msg.role === 'model' && parent?.role === 'user' ? parent : msg;
+
+    const removed = new Set<GeminiChatMessage>([question]);
+    const queue = [question];
+    while (queue.length > 0) {
+        const current = queue.shift()!;
+        for (const child of getChildren(messages, current.id ?? null)) {
+            if (removed.has(child)) continue;
+            removed.add(child);
+            queue.push(child);
+        }
+    }
+    return messages.filter(m => !removed.has(m));
+}
+
+function getAncestors(messages: GeminiChatMessage[], msg: GeminiChatMessage): GeminiChatMessage[] {
+    const byId = new Map(messages.map(m => [m.id, m]));
+    const branch: GeminiChatMessage[] = [];
+
+    // Parent links come from the note, so a hand-edited cycle must not loop forever
+    const seen = new Set<GeminiChatMessage>();
+    for (let current: GeminiChatMessage | undefined = msg; current && !seen.has(current); current = current.parentId ? byId.get(current.parentId) : undefined) {
+        seen.add(current);
+        branch.unshift(current);
+    }
+    return branch;
+}
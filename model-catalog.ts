@@ -0,0 +1,137 @@
+import { GEMINI_MODELS } from "./constants";
+import { geminiRequest } from "./gemini-request";
+import { GeminiModelInfo } from "./types";
+
+// How long a fetched model list is reused before asking the API again
+const CATALOG_TTL_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * Traits the models endpoint does not report, derived from the model family.
+ * This is the only place that looks at model names.
+ */
+function inferFamilyTraits(id: string): Pick<GeminiModelInfo, 'thinking' | 'apiVersion' | 'supportsMediaResolution'> {
+    if (/^gemini-3/.test(id)) {
+        return { thinking: 'level', apiVersion: 'v1alpha', supportsMediaResolution: true };
+    }
+    if (/^gemini-2\.5/.test(id)) {
+        return { thinking: 'budget', apiVersion: 'v1beta', supportsMediaResolution: false };
+    }
+    return { thinking: 'none', apiVersion: 'v1beta', supportsMediaResolution: false };
+}
+
+/**
+ * The Gemini models available to the configured API key, with their capabilities.
+ * Fetched from `GET /v1beta/models` and kept in memory; the built-in list in
+ * `GEMINI_MODELS` is used before the first fetch and whenever the API cannot be reached.
+ */
+export class ModelCatalog {
+    private models: GeminiModelInfo[] | null = null;
+    private fetchedAt = 0;
+    private fetchedForKey = '';
+    private pending: Promise<GeminiModelInfo[]> | null = null;
+
+    /**
+     * Returns the model list, fetching it if it is missing, stale or belongs to another API key.
+     */
+    async getModels(apiKey: string, forceRefresh = false): Promise<GeminiModelInfo[]> {
+        const cleanApiKey = apiKey.trim();
+        if (!cleanApiKey) {
+            return GEMINI_MODELS;
+        }
+
+        const isFresh = this.models && this.fetchedForKey === cleanApiKey && Date.now() - this.fetchedAt < CATALOG_TTL_MS;
+        if (isFresh && !forceRefresh) {
+            return this.models as GeminiModelInfo[];
+        }
+
+        if (!this.pending) {
+            this.pending = this.fetchModels(cleanApiKey)
+                .then(models => {
+                    this.models = models;
+                    this.fetchedAt = Date.now();
+                    this.fetchedForKey = cleanApiKey;
+                    return models;
+                })
+                .catch(error => {
+                    console.warn('Gemini: Could not fetch the model list, using the built-in list.', error);
+                    return this.models || GEMINI_MODELS;
+                })
+                .finally(() => {
+                    this.pending = null;
+                });
+        }
+        return this.pending;
+    }
+
+    /**
+     * Capabilities of a model from the last known list. Models missing from the list
+     * (e.g. typed by hand or not yet fetched) get traits inferred from their family.
+     */
+    getModel(id: string): GeminiModelInfo {
+        const modelId = id.replace(/^models\//, '');
+        const known = (this.models || GEMINI_MODELS).find(m => m.id === modelId)
+            || GEMINI_MODELS.find(m => m.id === modelId);
+        if (known) {
+            return known;
+        }
+        return {
+            id: modelId,
+            name: modelId,
+            supportsCaching: true,
+            ...inferFamilyTraits(modelId)
+        };
+    }
+
+    private async fetchModels(apiKey: string): Promise<GeminiModelInfo[]> {
+        const models: GeminiModelInfo[] = [];
+        let pageToken = '';
+
+        do {
+            const url = `https://generativelanguage.googleapis.com/v1beta/models?pageSize=1000${pageToken ? `&pageToken=${encodeURIComponent(pageToken)}` : ''}`;
+            const response = await geminiRequest({
+                url: url,
+                method: 'GET',
+                headers: { 'x-goog-api-key': apiKey }
+            }, { maxRetries: 1 });
+
+            if (response.status !== 200) {
+                throw new Error(`Models request failed with status ${response.status}`);
+            }
+
+            for (const model of response.json.models || []) {
+                const methods: string[] = model.supportedGenerationMethods || [];
+                if (!methods.includes('generateContent')) continue;
+                models.push(this.toModelInfo(model, methods));
+            }
+            pageToken = response.json.nextPageToken || '';
+        } while (pageToken);
+
+        if (models.length === 0) {
+            throw new Error('The models endpoint returned no chat models.');
+        }
+        return models;
+    }
+
+    private toModelInfo(model: any, methods: string[]): GeminiModelInfo {
+        const id = String(model.name).replace(/^models\//, '');
+        const traits = inferFamilyTraits(id);
+        // The endpoint reports whether a model thinks, but not how thinking is configured
+        let thinking = traits.thinking;
+        if (model.thinking === false) {
+            thinking = 'none';
+        } else if (model.thinking === true && thinking === 'none') {
+            thinking = 'budget';
+        }
+
+        return {
+            id: id,
+            name: model.displayName || id,
+            inputTokenLimit: model.inputTokenLimit,
+            outputTokenLimit: model.outputTokenLimit,
+            thinking: thinking,
+            apiVersion: traits.apiVersion,
+            supportsCaching: methods.includes('createCachedContent'),
+            supportsMediaResolution: traits.supportsMediaResolution
+        };
+    }
+}
@@ -0,0 +1,106 @@
+import { TAbstractFile, TFile, normalizePath } from "obsidian";
+
+// Sections longer than this are split at blank lines (or hard, if there are none)
+const MAX_CHUNK_CHARS = 2000;
+const SOFT_SPLIT_CHARS = 1500;
+
+/**
+ * A passage of a note. `heading` is the heading path ("Project > Risks"), empty before
+ * the first heading; `line` is the 0-based line where the passage starts.
+ */
+export interface NoteChunk {
+    heading: string;
+    line: number;
+    text: string;
+}
+
+/**
+ * Notes that search indexes cover: markdown outside the chat history folder.
+ */
+export function isIndexableNote(file: TAbstractFile, chatHistoryFolder: string): file is TFile {
+    const chatFolder = normalizePath(chatHistoryFolder);
+    return file instanceof TFile && file.extension === 'md' && !file.path.startsWith(`${chatFolder}/`);
+}
+
+/**
+ * Returns the line after the closing frontmatter fence, or 0 without frontmatter.
+ */
+export function frontmatterEnd(lines: string[]): number {
+    if (lines[0]?.trim() !== '---') {
+        return 0;
+    }
+    const end = lines.findIndex((line, index) => index > 0 && line.trim() === '---');
+    return end > 0 ? end + 1 : 0;
+}
+
+/**
+ * Splits a markdown note into passages by heading. Headings inside code blocks are
+ * ignored, frontmatter is skipped and sections without a body are dropped.
+ */
+export function chunkMarkdown(content: string): NoteChunk[] {
+    const lines = content.split('\n');
+    const chunks: NoteChunk[] = [];
+    const headingPath: string[] = [];
+    const start = frontmatterEnd(lines);
+    let section = { heading: '', line: start, lines: [] as string[], hasBody: false };
+    let inFence = false;
+
+    const flush = () => {
+        if (section.hasBody) {
+            splitSection(section.heading, section.line, section.lines, chunks);
+        }
+    };
+
+    for (let i = start; i < lines.length; i++) {
+        const line = lines[i];
+        if (/^\s*(```|~~~)/.test(line)) {
+            inFence = !inFence;
+        }
+        const heading = inFence ? null : line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+        if (heading) {
+            flush();
+            const level = heading[1].length;
+            headingPath.length = level - 1;
+            headingPath[level - 1] = heading[2];
+            section = { heading: headingPath.filter(Boolean).join(' > '), line: i, lines: [line], hasBody: false };
+        } else {
+            section.lines.push(line);
+            section.hasBody = section.hasBody || line.trim() !== '';
+        }
+    }
+    flush();
+    return chunks;
+}
+
+function splitSection(heading: string, firstLine: number, lines: string[], chunks: NoteChunk[]) {
+    let piece: string[] = [];
+    let pieceStart = firstLine;
+    let length = 0;
+
+    const push = () => {
+        const text = piece.join('\n').trim();
+        if (text) {
+            chunks.push({ heading, line: pieceStart, text });
+        }
+    };
+
+    lines.forEach((line, index) => {
+        const atBreak = line.trim() === '' && length >= SOFT_SPLIT_CHARS;
+        if (atBreak) {
+            push();
+            piece = [];
+            length = 0;
+            pieceStart = firstLine + index + 1;
+            return;
+        }
+        if (piece.length > 0 && length + line.length > MAX_CHUNK_CHARS) {
+            push();
+            piece = [];
+            length = 0;
+            pieceStart = firstLine + index;
+        }
+        piece.push(line.slice(0, MAX_CHUNK_CHARS));
+        length += line.length + 1;
+    });
+    push();
+}
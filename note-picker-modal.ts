@@ -0,0 +1,41 @@
+import { App, FuzzySuggestModal, TFile } from "obsidian";
+
+/**
+ * Asks which note an ambiguous link means. `onChoose` receives null if the picker
+ * is closed without a choice.
+ */
+export class NotePickerModal extends FuzzySuggestModal<TFile> {
+    private matches: TFile[];
+    private onChoose: (file: TFile | null) => void;
+    private chosen = false;
+
+    constructor(app: App, link: string, matches: TFile[], onChoose: (file: TFile | null) => void) {
+        super(app);
+        this.matches = matches;
+        this.onChoose = onChoose;
+        this.setPlaceholder(`[[${link}]] matches ${matches.length} notes. Which one do you mean?`);
+    }
+
+    getItems(): TFile[] {
+        return this.matches;
+    }
+
+    getItemText(file: TFile): string {
+        return file.path;
+    }
+
+    onChooseItem(file: TFile, _evt: MouseEvent | KeyboardEvent) {
+        this.chosen = true;
+        this.onChoose(file);
+    }
+
+    onClose() {
+        super.onClose();
+        // onChooseItem runs after onClose, so wait before treating this as a cancel
+        window.setTimeout(() => {
+            if (!this.chosen) {
+                this.onChoose(null);
+            }
+        }, 0);
+    }
+}
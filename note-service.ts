@@ -1,4 +1,4 @@
-import { App, TFile } from "obsidian";
+import { App, TFile, resolveSubpath } from "obsidian";
 
 type ResolveNoteSuccess = {
     type: "resolved";
@@ -16,6 +16,19 @@ type ResolveNoteFailure = {
 
 type ResolveNoteOutcome = ResolveNoteSuccess | ResolveNoteAmbiguous | ResolveNoteFailure;
 
+// How deep ![[embeds]] inside linked notes are expanded
+const MAX_EMBED_DEPTH = 3;
+
+/**
+ * The parts of a wiki link: `[[target#Heading|alias]]` or `[[target#^block-id]]`.
+ * `subpath` is normalized to "#Heading" or "#^block-id", empty for the whole note.
+ */
+export interface ParsedLink {
+    target: string;
+    subpath: string;
+    alias?: string;
+}
+
 export class NoteService {
     app: App;
 
@@ -187,6 +200,66 @@ export class NoteService {
         return { type: "not_found" };
     }
 
+    /**
+     * Splits the inside of a wiki link. Also accepts the short block form `Note^block-id`.
+     */
+    parseLink(linkText: string): ParsedLink {
+        const [targetWithSubpath, ...aliasParts] = linkText.split("|");
+        const alias = aliasParts.join("|").trim() || undefined;
+        const match = targetWithSubpath.match(/^([^#^]*)([#^].*)?$/);
+        const target = (match?.[1] ?? targetWithSubpath).trim();
+        let subpath = (match?.[2] ?? "").trim();
+        if (subpath.startsWith("^")) {
+            subpath = `#${subpath}`;
+        }
+        return { target, subpath, alias };
+    }
+
+    /**
+     * Reads a note, or only the heading section or block named by `subpath`, using the
+     * positions in the metadata cache. Markdown embeds in the text are expanded in place,
+     * up to MAX_EMBED_DEPTH levels and without following cycles.
+     * Returns null if the heading or block does not exist.
+     */
+    async readLinkedText(file: TFile, subpath: string, depth = 0, ancestors: Set<string> = new Set()): Promise<string | null> {
+        const content = await this.readNoteText(file);
+        let text = content;
+        if (subpath) {
+            const cache = this.app.metadataCache.getFileCache(file);
+            const section = cache ? resolveSubpath(cache, subpath) : null;
+            if (!section) {
+                return null;
+            }
+            text = content.slice(section.start.offset, section.end ? section.end.offset : content.length).trim();
+        }
+        return this.expandEmbeds(text, file, depth, new Set(ancestors).add(`${file.path}${subpath}`));
+    }
+
+    private async expandEmbeds(text: string, source: TFile, depth: number, ancestors: Set<string>): Promise<string> {
+        if (depth >= MAX_EMBED_DEPTH) {
+            return text;
+        }
+        const embeds = Array.from(text.matchAll(/!\[\[([^\]]+)\]\]/g));
+        let expanded = text;
+        for (const embed of embeds) {
+            const { target, subpath } = this.parseLink(embed[1]);
+            const file = this.app.metadataCache.getFirstLinkpathDest(target, source.path);
+            if (!file || file.extension !== "md") {
+                continue; // Images and other files stay as links
+            }
+            let replacement: string;
+            if (ancestors.has(`${file.path}${subpath}`)) {
+                replacement = `[Embed of [[${embed[1]}]] skipped: it embeds itself]`;
+            } else {
+                const inner = await this.readLinkedText(file, subpath, depth + 1, ancestors);
+                if (inner === null) continue;
+                replacement = `--- Embedded [[${embed[1]}]] ---\n${inner}\n--- End of Embedded ---`;
+            }
+            expanded = expanded.replace(embed[0], () => replacement);
+        }
+        return expanded;
+    }
+
     async readNoteText(file: TFile): Promise<string> {
         try {
             return await this.app.vault.cachedRead(file);
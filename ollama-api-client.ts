@@ -0,0 +1,132 @@
+import { ChatModelOption, ChatProvider, ChatRequestOptions, buildTextReply, mapFinishReason, readLines, translateParts } from "./chat-provider";
+import { GeminiChatMessage, GeminiPluginSettings } from "./types";
+
+/**
+ * Client for a local Ollama server (`/api/chat`). Nothing leaves the machine,
+ * which makes it the option for vault content that must stay local.
+ */
+export class OllamaApiClient implements ChatProvider {
+    id = 'ollama' as const;
+    name = 'Ollama';
+
+    private getBaseUrl(settings: GeminiPluginSettings): string {
+        return settings.ollamaBaseUrl.trim().replace(/\/+$/, '');
+    }
+
+    async listModels(settings: GeminiPluginSettings): Promise<ChatModelOption[]> {
+        const fallback = [{ id: settings.ollamaModel, name: settings.ollamaModel }];
+        try {
+            const response = await fetch(`${this.getBaseUrl(settings)}/api/tags`);
+            if (!response.ok) {
+                return fallback;
+            }
+            const data = await response.json();
+            const names: string[] = (data.models || []).map((m: any) => m.name).filter(Boolean).sort();
+            return names.length > 0 ? names.map(name => ({ id: name, name })) : fallback;
+        } catch (error) {
+            console.warn('Ollama: Failed to list models:', error);
+            return fallback;
+        }
+    }
+
+    private toMessages(history: GeminiChatMessage[]): any[] {
+        return history.map(msg => {
+            const parts = translateParts(msg);
+            const message: any = {
+                role: msg.role === 'model' ? 'assistant' : 'user',
+                content: parts.map(p => p.type === 'text' ? p.text : '').filter(Boolean).join('\n\n')
+            };
+            const images: string[] = [];
+            for (const p of parts) {
+                if (p.type === 'image') images.push(p.data);
+            }
+            if (images.length > 0) {
+                message.images = images;
+            }
+            return message;
+        });
+    }
+
+    async generateContent(
+        history: GeminiChatMessage[],
+        modelName: string,
+        settings: GeminiPluginSettings,
+        options: ChatRequestOptions = {}
+    ): Promise<GeminiChatMessage> {
+        const { signal, onUpdate } = options;
+        const body: any = {
+            model: modelName,
+            messages: this.toMessages(history),
+            stream: !!onUpdate
+        };
+
+        if (options.systemInstruction) {
+            body.messages.unshift({ role: 'system', content: options.systemInstruction });
+        }
+
+        const generation = options.generation;
+        if (generation) {
+            const modelOptions: Record<string, any> = {};
+            if (generation.temperature !== undefined) modelOptions.temperature = generation.temperature;
+            if (generation.topP !== undefined) modelOptions.top_p = generation.topP;
+            if (generation.topK !== undefined) modelOptions.top_k = generation.topK;
+            if (generation.maxOutputTokens !== undefined) modelOptions.num_predict = generation.maxOutputTokens;
+            if (generation.stopSequences) modelOptions.stop = generation.stopSequences;
+            if (Object.keys(modelOptions).length > 0) {
+                body.options = modelOptions;
+            }
+        }
+
+        // Only send `think` when enabled: models without thinking support reject it
+        const shouldUseThinking = options.enableThinking !== undefined ? options.enableThinking : settings.enableThinking;
+        if (shouldUseThinking) {
+            body.think = true;
+        }
+
+        const response = await fetch(`${this.getBaseUrl(settings)}/api/chat`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body),
+            signal: signal
+        });
+
+        if (!response.ok) {
+            const errorText = await response.text();
+            console.error('Ollama API Error Body:', errorText);
+            throw new Error(`API Error ${response.status}: ${errorText}`);
+        }
+
+        if (!onUpdate) {
+            const data = await response.json();
+            return buildTextReply(data.message?.content || "", data.message?.thinking || "", this.mapUsage(data), mapFinishReason(data.done_reason));
+        }
+
+        let content = "";
+        let thought = "";
+        let usage: { promptTokenCount: number; candidatesTokenCount: number } | undefined;
+        let finishReason: string | undefined;
+        await readLines(response, line => {
+            const chunk = JSON.parse(line);
+            if (chunk.error) {
+                throw new Error(`API Error: ${chunk.error}`);
+            }
+            if (chunk.message?.content) content += chunk.message.content;
+            if (chunk.message?.thinking) thought += chunk.message.thinking;
+            if (chunk.done) {
+                usage = this.mapUsage(chunk);
+                finishReason = mapFinishReason(chunk.done_reason);
+            }
+            onUpdate(buildTextReply(content, thought));
+        });
+
+        return buildTextReply(content, thought, usage, finishReason);
+    }
+
+    private mapUsage(data: any): { promptTokenCount: number; candidatesTokenCount: number } | undefined {
+        if (data.prompt_eval_count === undefined && data.eval_count === undefined) return undefined;
+        return {
+            promptTokenCount: data.prompt_eval_count || 0,
+            candidatesTokenCount: data.eval_count || 0
+        };
+    }
+}
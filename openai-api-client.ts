@@ -0,0 +1,149 @@
+import { ChatModelOption, ChatProvider, ChatRequestOptions, buildTextReply, mapFinishReason, readLines, translateParts } from "./chat-provider";
+import { GeminiChatMessage, GeminiPluginSettings } from "./types";
+
+/**
+ * Client for servers that implement the OpenAI `/v1/chat/completions` API
+ * (OpenAI itself, LM Studio, vLLM, llama.cpp server, OpenRouter, ...).
+ */
+export class OpenAiCompatibleClient implements ChatProvider {
+    id = 'openai' as const;
+    name = 'OpenAI-compatible';
+
+    private getBaseUrl(settings: GeminiPluginSettings): string {
+        return settings.openAiBaseUrl.trim().replace(/\/+$/, '');
+    }
+
+    private getHeaders(settings: GeminiPluginSettings): Record<string, string> {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        const apiKey = settings.openAiApiKey.trim();
+        if (apiKey) {
+            headers['Authorization'] = `Bearer ${apiKey}`;
+        }
+        return headers;
+    }
+
+    async listModels(settings: GeminiPluginSettings): Promise<ChatModelOption[]> {
+        const fallback = [{ id: settings.openAiModel, name: settings.openAiModel }];
+        try {
+            const response = await fetch(`${this.getBaseUrl(settings)}/models`, {
+                headers: this.getHeaders(settings)
+            });
+            if (!response.ok) {
+                return fallback;
+            }
+            const data = await response.json();
+            const ids: string[] = (data.data || []).map((m: any) => m.id).filter(Boolean).sort();
+            return ids.length > 0 ? ids.map(id => ({ id, name: id })) : fallback;
+        } catch (error) {
+            console.warn('OpenAI-compatible: Failed to list models:', error);
+            return fallback;
+        }
+    }
+
+    private toMessages(history: GeminiChatMessage[]): any[] {
+        return history.map(msg => {
+            const role = msg.role === 'model' ? 'assistant' : 'user';
+            const parts = translateParts(msg);
+
+            // Plain string content is the most widely supported form
+            if (role === 'assistant' || parts.every(p => p.type === 'text')) {
+                const text = parts.map(p => p.type === 'text' ? p.text : '').filter(Boolean).join('\n\n');
+                return { role, content: text };
+            }
+
+            return {
+                role,
+                content: parts.map(p => p.type === 'text'
+                    ? { type: 'text', text: p.text }
+                    : { type: 'image_url', image_url: { url: `data:${p.mimeType};base64,${p.data}` } })
+            };
+        });
+    }
+
+    async generateContent(
+        history: GeminiChatMessage[],
+        modelName: string,
+        settings: GeminiPluginSettings,
+        options: ChatRequestOptions = {}
+    ): Promise<GeminiChatMessage> {
+        const { signal, onUpdate } = options;
+        const body: any = {
+            model: modelName,
+            messages: this.toMessages(history)
+        };
+
+        if (options.systemInstruction) {
+            body.messages.unshift({ role: 'system', content: options.systemInstruction });
+        }
+
+        // topK and safety settings have no equivalent in the Chat Completions API
+        const generation = options.generation;
+        if (generation) {
+            if (generation.temperature !== undefined) body.temperature = generation.temperature;
+            if (generation.topP !== undefined) body.top_p = generation.topP;
+            if (generation.maxOutputTokens !== undefined) body.max_tokens = generation.maxOutputTokens;
+            if (generation.stopSequences) body.stop = generation.stopSequences;
+            if (generation.candidateCount !== undefined) body.n = generation.candidateCount;
+        }
+
+        if (onUpdate) {
+            body.stream = true;
+            body.stream_options = { include_usage: true };
+        }
+
+        const response = await fetch(`${this.getBaseUrl(settings)}/chat/completions`, {
+            method: 'POST',
+            headers: this.getHeaders(settings),
+            body: JSON.stringify(body),
+            signal: signal
+        });
+
+        if (!response.ok) {
+            const errorText = await response.text();
+            console.error('OpenAI-compatible API Error Body:', errorText);
+            throw new Error(`API Error ${response.status}: ${errorText}`);
+        }
+
+        if (!onUpdate) {
+            const data = await response.json();
+            const choice = data.choices?.[0];
+            const message = choice?.message;
+            return buildTextReply(message?.content || "", message?.reasoning_content || "", this.mapUsage(data.usage), mapFinishReason(choice?.finish_reason));
+        }
+
+        let content = "";
+        let thought = "";
+        let usage: any;
+        let finishReason: string | undefined;
+        await readLines(response, line => {
+            if (!line.startsWith('data:')) return;
+            const data = line.slice(5).trim();
+            if (data === '[DONE]') return;
+
+            const chunk = JSON.parse(data);
+            if (chunk.error) {
+                throw new Error(`API Error: ${chunk.error.message || JSON.stringify(chunk.error)}`);
+            }
+            if (chunk.usage) usage = chunk.usage;
+            // With `n` > 1 the deltas of all candidates are interleaved; only the first one is shown
+            const choice = (chunk.choices || []).find((c: any) => (c.index ?? 0) === 0);
+            if (!choice) return;
+            const delta = choice.delta;
+            if (delta?.content) content += delta.content;
+            // Reasoning models served by vLLM, DeepSeek and others stream their thoughts separately
+            if (delta?.reasoning_content) thought += delta.reasoning_content;
+            if (choice.finish_reason) finishReason = mapFinishReason(choice.finish_reason);
+            onUpdate(buildTextReply(content, thought));
+        });
+
+        return buildTextReply(content, thought, this.mapUsage(usage), finishReason);
+    }
+
+    private mapUsage(usage: any): { promptTokenCount: number; candidatesTokenCount: number } | undefined {
+        if (!usage) return undefined;
+        return {
+            promptTokenCount: usage.prompt_tokens || 0,
+            candidatesTokenCount: usage.completion_tokens || 0
+        };
+    }
+}
@@ -0,0 +1,71 @@
+import { App, Notice, SuggestModal, TFile } from "obsidian";
+import { describePassage } from "./auto-context";
+import { RetrievalResult, RetrievalSource } from "./types";
+
+const MIN_QUERY_LENGTH = 3;
+const RESULT_LIMIT = 20;
+const SNIPPET_CHARS = 200;
+
+/**
+ * Searches a retrieval source as the user types and opens the chosen passage at its line.
+ * `delayMs` waits for typing to pause, so sources that call an API are not queried per keystroke.
+ */
+export class PassageSearchModal extends SuggestModal<RetrievalResult> {
+    private source: RetrievalSource;
+    private delayMs: number;
+    private latestQuery = '';
+
+    constructor(app: App, source: RetrievalSource, delayMs = 0) {
+        super(app);
+        this.source = source;
+        this.delayMs = delayMs;
+        this.setPlaceholder(`Search the vault (${source.name.toLowerCase()})...`);
+        this.emptyStateText = 'No matching passages.';
+    }
+
+    async getSuggestions(query: string): Promise<RetrievalResult[]> {
+        this.latestQuery = query;
+        if (query.trim().length < MIN_QUERY_LENGTH) {
+            return [];
+        }
+        if (this.delayMs > 0) {
+            await new Promise(resolve => window.setTimeout(resolve, this.delayMs));
+            if (query !== this.latestQuery) {
+                return [];
+            }
+        }
+        try {
+            return await this.source.search(query, RESULT_LIMIT);
+        } catch (error) {
+            new Notice(`Search failed: ${error.message}`);
+            return [];
+        }
+    }
+
+    renderSuggestion(result: RetrievalResult, el: HTMLElement) {
+        el.addClass('gemini-passage-result');
+        el.createDiv({ cls: 'gemini-passage-title', text: describePassage(result) });
+        el.createDiv({ cls: 'gemini-passage-path', text: `${result.path}:${result.line + 1}` });
+        const body = result.text.replace(/^#{1,6}\s+.*\n?/, '').replace(/\s+/g, ' ').trim();
+        el.createDiv({
+            cls: 'gemini-passage-snippet',
+            text: body.length > SNIPPET_CHARS ? `${body.slice(0, SNIPPET_CHARS)}…` : body
+        });
+    }
+
+    async onChooseSuggestion(result: RetrievalResult) {
+        await openPassage(this.app, result.path, result.line);
+    }
+}
+
+/**
+ * Opens a note scrolled to the given 0-based line.
+ */
+export async function openPassage(app: App, path: string, line: number) {
+    const file = app.vault.getAbstractFileByPath(path);
+    if (!(file instanceof TFile)) {
+        new Notice(`${path} no longer exists.`);
+        return;
+    }
+    await app.workspace.getLeaf(false).openFile(file, { eState: { line } });
+}
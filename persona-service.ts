@@ -0,0 +1,48 @@
+import { App, TFile, TFolder, getFrontMatterInfo, normalizePath } from "obsidian";
+
+/**
+ * Personas are notes in the persona folder. The note body (without frontmatter)
+ * is sent as the system instruction; the note's basename is the persona name.
+ */
+export class PersonaService {
+    app: App;
+
+    constructor(app: App) {
+        this.app = app;
+    }
+
+    getPersonaFiles(folderPath: string): TFile[] {
+        const folder = this.app.vault.getAbstractFileByPath(normalizePath(folderPath));
+        if (!(folder instanceof TFolder)) {
+            return [];
+        }
+
+        return folder.children
+            .filter((f): f is TFile => f instanceof TFile && f.extension === "md")
+            .sort((a, b) => a.basename.localeCompare(b.basename));
+    }
+
+    getPersonaNames(folderPath: string): string[] {
+        return this.getPersonaFiles(folderPath).map((f) => f.basename);
+    }
+
+    /**
+     * Returns the system instruction text for a persona, or null if no persona
+     * is selected or its note no longer exists.
+     */
+    async getInstruction(folderPath: string, personaName: string | undefined): Promise<string | null> {
+        if (!personaName) {
+            return null;
+        }
+
+        const file = this.getPersonaFiles(folderPath).find((f) => f.basename === personaName);
+        if (!file) {
+            return null;
+        }
+
+        const content = await this.app.vault.cachedRead(file);
+        const { contentStart } = getFrontMatterInfo(content);
+        const instruction = content.slice(contentStart).trim();
+        return instruction || null;
+    }
+}
@@ -0,0 +1,94 @@
+import { CHAT_FORMAT_VERSION, ChatMessage, formatChatContent, formatMessage, parseChatContent, usesMessageMarkers } from '../chat-note-format';
+
+// Build and run: npx esbuild tests/test_chat_note_format.ts --bundle --platform=node --outfile=/tmp/test_chat_note_format.js && node /tmp/test_chat_note_format.js
+
+let failures = 0;
+
+function check(name: string, passed: boolean, detail?: unknown) {
+    if (passed) {
+        console.log(`PASS: ${name}`);
+    } else {
+        failures++;
+        console.error(`FAIL: ${name}`, detail ?? '');
+    }
+}
+
+// Parsed messages list their fields in a different order
+function canonical(value: unknown): string {
+    return JSON.stringify(value, (_key, v) => v && typeof v === 'object' && !Array.isArray(v)
+        ? Object.keys(v).sort().reduce((sorted: any, key) => { sorted[key] = v[key]; return sorted; }, {})
+        : v);
+}
+
+function sameMessages(a: ChatMessage[], b: ChatMessage[]): boolean {
+    return canonical(a) === canonical(b);
+}
+
+const FRONTMATTER = `---\nepoch: 1\nchatFormat: ${CHAT_FORMAT_VERSION}\ntags:\n  - gemini-chat\n---\n\n`;
+
+function runTests() {
+    console.log('--- Test 1: Current format round trip ---');
+    const messages: ChatMessage[] = [
+        {
+            id: 'a1', parentId: null, role: 'user', timestamp: '2026-01-02T03:04:05.000Z',
+            content: 'Compare [[Note]] with this:\n\n**ai**: not a label\n<!-- gemini-message:start id=zz role=model -->\nquoted\n<!-- gemini-message:end id=zz -->',
+            parts: [{ text: 'Compare' }, { file_data: { file_uri: 'files/1', mime_type: 'image/png' } }],
+            images: ['Gemini Chats/Attachments/cat.png']
+        },
+        {
+            id: 'b2', parentId: 'a1', role: 'model', timestamp: '2026-01-02T03:04:09.000Z',
+            content: 'Sure – here is the comparison. ✅',
+            parts: [{ text: 'Sure', thoughtSignature: 'sig' }],
+            thought: 'Thinking…',
+            model: 'gemini-2.5-pro',
+            usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 5, totalTokenCount: 15 },
+            groundingMetadata: { webSearchQueries: ['comparison'] }
+        }
+    ];
+    const note = FRONTMATTER + formatChatContent(messages, CHAT_FORMAT_VERSION);
+    const parsed = parseChatContent(note);
+    check('uses message markers', usesMessageMarkers(note));
+    check('keeps every message', parsed.length === 2, parsed);
+    check('keeps every field', sameMessages(messages, parsed), parsed);
+
+    console.log('\n--- Test 2: Windows line endings and a missing end marker ---');
+    const crlf = note.replace(/\n/g, '\r\n').replace('<!-- gemini-message:end id=b2 -->', '');
+    const crlfParsed = parseChatContent(crlf);
+    check('reads both messages', crlfParsed.length === 2, crlfParsed);
+    check('keeps quoted markers as text', crlfParsed[0]?.content === messages[0].content, crlfParsed[0]?.content);
+    check('reads the last message to the end', crlfParsed[1]?.content === messages[1].content, crlfParsed[1]?.content);
+
+    console.log('\n--- Test 3: Old notes are read without ids ---');
+    const legacy = '---\ntags:\n  - gemini-chat\n---\n\n'
+        + '**user**: First question\n[Timestamp: 2024-05-01 10:00:00]\n\n'
+        + '**ai**: First answer\n[Timestamp: 2024-05-01 10:00:05]\n\n'
+        + '**user**: Second question';
+    const legacyParsed = parseChatContent(legacy);
+    check('not marked', !usesMessageMarkers(legacy));
+    check('reads three messages', legacyParsed.length === 3, legacyParsed);
+    check('gives the same ids on every read', JSON.stringify(parseChatContent(legacy).map(m => m.id)) === JSON.stringify(legacyParsed.map(m => m.id)));
+    check('links each message to the one before', legacyParsed[0]?.parentId === null && legacyParsed[2]?.parentId === legacyParsed[1]?.id, legacyParsed);
+    check('converts timestamps to ISO', legacyParsed[1]?.timestamp === new Date('2024-05-01 10:00:05').toISOString(), legacyParsed[1]?.timestamp);
+    check('roles and content', legacyParsed[1]?.role === 'model' && legacyParsed[1]?.content === 'First answer', legacyParsed[1]);
+
+    console.log('\n--- Test 4: Appending to an old note keeps its layout ---');
+    const reply: ChatMessage = { id: 'c3', parentId: legacyParsed[2]?.id, role: 'model', content: 'Second answer', timestamp: '2026-01-02T03:04:05.000Z' };
+    const appended = `${legacy}\n\n${formatMessage(reply, 1)}`;
+    const appendedParsed = parseChatContent(appended);
+    check('still not marked', !usesMessageMarkers(appended));
+    check('reads the new message', appendedParsed.length === 4, appendedParsed);
+    check('keeps the id and parent of the new message', appendedParsed[3]?.id === 'c3' && appendedParsed[3]?.parentId === legacyParsed[2]?.id, appendedParsed[3]);
+    check('keeps the old ids', appendedParsed[2]?.id === legacyParsed[2]?.id);
+
+    console.log('\n--- Test 5: Upgrading an old note ---');
+    const upgraded = FRONTMATTER + formatChatContent(appendedParsed, CHAT_FORMAT_VERSION);
+    const upgradedParsed = parseChatContent(upgraded);
+    check('marked after the upgrade', usesMessageMarkers(upgraded));
+    check('same messages after the upgrade', sameMessages(appendedParsed, upgradedParsed), upgradedParsed);
+}
+
+runTests();
+if (failures > 0) {
+    console.error(`\n${failures} check(s) failed`);
+    process.exitCode = 1;
+}
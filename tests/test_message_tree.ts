@@ -0,0 +1,92 @@
+import { CHAT_FORMAT_VERSION, ChatMessage, formatChatContent, parseChatContent } from '../chat-note-format';
+import { getBranch, getBranchEnd, getBranchThrough, getSiblings, removeTurn } from '../message-tree';
+
+// Build and run: npx esbuild tests/test_message_tree.ts --bundle --platform=node --outfile=/tmp/test_message_tree.js && node /tmp/test_message_tree.js
+
+let failures = 0;
+
+function check(name: string, passed: boolean, detail?: unknown) {
+    if (passed) {
+        console.log(`PASS: ${name}`);
+    } else {
+        failures++;
+        console.error(`FAIL: ${name}`, detail ?? '');
+    }
+}
+
+function ids(messages: ChatMessage[]): string {
+    return messages.map(msg => msg.id).join(',');
+}
+
+function message(id: string, parentId: string | null, role: 'user' | 'model'): ChatMessage {
+    return { id, parentId, role, content: `Message ${id}`, timestamp: '2026-01-02T03:04:05.000Z' };
+}
+
+// Saves the chat into a note and reads it back, as loading a chat does
+function reload(messages: ChatMessage[], activeBranch: string | undefined): ChatMessage[] {
+    const loaded = parseChatContent(formatChatContent(messages, CHAT_FORMAT_VERSION));
+    return getBranch(loaded, activeBranch);
+}
+
+function runTests() {
+    // u1 ─ m1 ─ u2 ─ m2
+    //    └ m1b (regenerated)
+    const messages = [
+        message('u1', null, 'user'),
+        message('m1', 'u1', 'model'),
+        message('u2', 'm1', 'user'),
+        message('m2', 'u2', 'model'),
+        message('m1b', 'u1', 'model')
+    ];
+
+    console.log('--- Test 1: Branches and siblings ---');
+    check('newest branch follows the newest reply', ids(getBranch(messages)) === 'u1,m1b', ids(getBranch(messages)));
+    check('branch through an older version', ids(getBranchThrough(messages, 'm1')) === 'u1,m1,u2,m2', ids(getBranchThrough(messages, 'm1')));
+    check('branch ending at a message', ids(getBranch(messages, 'u2')) === 'u1,m1,u2', ids(getBranch(messages, 'u2')));
+    check('siblings in creation order', ids(getSiblings(messages, messages[4])) === 'm1,m1b', ids(getSiblings(messages, messages[4])));
+    check('a single version has no other siblings', getSiblings(messages, messages[3]).length === 1);
+    check('a deleted end falls back to the newest branch', ids(getBranch(messages, 'gone')) === 'u1,m1b', ids(getBranch(messages, 'gone')));
+
+    console.log('\n--- Test 2: A rewind is kept after reloading ---');
+    const linear = messages.slice(0, 4);
+    const rewound = linear.slice(0, 2);
+    const activeBranch = getBranchEnd(linear, rewound);
+    check('a rewound branch is remembered', activeBranch === 'm1', activeBranch);
+    check('reloading shows the rewound branch', ids(reload(linear, activeBranch)) === 'u1,m1', ids(reload(linear, activeBranch)));
+    check('the newest branch needs no activeBranch', getBranchEnd(linear, linear) === undefined);
+    check('reloading without activeBranch shows everything', ids(reload(linear, undefined)) === 'u1,m1,u2,m2');
+
+    console.log('\n--- Test 3: An older version is kept after reloading ---');
+    const older = getBranchThrough(messages, 'm1');
+    const olderBranch = getBranchEnd(messages, older);
+    check('the older version is remembered', olderBranch === 'm2', olderBranch);
+    check('reloading shows the older version', ids(reload(messages, olderBranch)) === 'u1,m1,u2,m2', ids(reload(messages, olderBranch)));
+
+    console.log('\n--- Test 4: Parent links edited into a cycle ---');
+    const cycle = [message('x', 'y', 'user'), message('y', 'x', 'model')];
+    check('ends instead of looping', ids(getBranch(cycle, 'x')) === 'y,x', ids(getBranch(cycle, 'x')));
+    check('removing a turn ends too', removeTurn(cycle, cycle[0]).length === 0, ids(removeTurn(cycle, cycle[0])));
+
+    console.log('\n--- Test 5: Deleting a question ---');
+    // u1 ─ m1 ─ u2 ─ m2
+    //    │    └ u2b ─ m2b (edited question)
+    //    └ m1b
+    const edited = [
+        ...messages,
+        message('u2b', 'm1', 'user'),
+        message('m2b', 'u2b', 'model')
+    ];
+    const withoutU2 = removeTurn(edited, edited[2]);
+    check('removes the question, its replies and later messages', ids(withoutU2) === 'u1,m1,m1b,u2b,m2b', ids(withoutU2));
+    check('keeps the other version of the question', ids(getSiblings(withoutU2, withoutU2[3])) === 'u2b', ids(getSiblings(withoutU2, withoutU2[3])));
+    const fromReply = removeTurn(edited, edited[3]);
+    check('deleting from a reply removes its question', ids(fromReply) === ids(withoutU2), ids(fromReply));
+    const withoutU1 = removeTurn(edited, edited[0]);
+    check('deleting the first question empties the chat', withoutU1.length === 0, ids(withoutU1));
+}
+
+runTests();
+if (failures > 0) {
+    console.error(`\n${failures} check(s) failed`);
+    process.exitCode = 1;
+}
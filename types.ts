@@ -1,4 +1,30 @@
+export type ProviderId = 'gemini' | 'openai' | 'ollama';
+
+// How an over-long Gemini request is cut down to the model's input limit
+export type ContextTrimStrategy = 'drop_oldest' | 'drop_largest_attachments' | 'summarize';
+
+export type HarmCategory =
+    | 'HARM_CATEGORY_HARASSMENT'
+    | 'HARM_CATEGORY_HATE_SPEECH'
+    | 'HARM_CATEGORY_SEXUALLY_EXPLICIT'
+    | 'HARM_CATEGORY_DANGEROUS_CONTENT'
+    | 'HARM_CATEGORY_CIVIC_INTEGRITY';
+
+export type HarmBlockThreshold = 'BLOCK_NONE' | 'BLOCK_ONLY_HIGH' | 'BLOCK_MEDIUM_AND_ABOVE' | 'BLOCK_LOW_AND_ABOVE' | 'OFF';
+
+// Sampling and safety parameters. Unset fields fall back to the model defaults.
+export interface GenerationParameters {
+    temperature?: number;
+    topP?: number;
+    topK?: number;
+    maxOutputTokens?: number;
+    stopSequences?: string[];
+    candidateCount?: number;
+    safetySettings?: Partial<Record<HarmCategory, HarmBlockThreshold>>;
+}
+
 export interface GeminiPluginSettings {
+    provider: ProviderId;
     apiKey: string;
     modelName: string;
     thinkingLevel: 'low' | 'high';
@@ -6,16 +32,144 @@ export interface GeminiPluginSettings {
     chatHistoryFolder: string;
     enableGoogleSearch: boolean;
     enableUrlContext: boolean;
+    enableCodeExecution: boolean;
     mediaResolution: 'auto' | 'low' | 'medium' | 'high';
+    enableStreaming: boolean;
+    enableVaultTools: boolean;
+    openAiBaseUrl: string;
+    openAiApiKey: string;
+    openAiModel: string;
+    ollamaBaseUrl: string;
+    ollamaModel: string;
+    personaFolder: string;
+    defaultPersona: string;
+    generationDefaults: GenerationParameters;
+    contextTrimStrategy: ContextTrimStrategy;
+    activeNoteLinkDepth: number; // Hops of links and backlinks sent with the active note, 0 = none
+    linkedNotesTokenBudget: number; // Estimated tokens of all linked notes together
+    modelPrices: Record<string, ModelPrice>; // Keyed by model id or id prefix
+    budgetDailyTokens: number; // 0 = no limit
+    budgetMonthlyTokens: number;
+    budgetDailyCost: number; // Estimated USD
+    budgetMonthlyCost: number;
+    budgetAction: 'block' | 'downgrade'; // What happens once a limit is reached
+    budgetFallbackModel: string; // Gemini model used when downgrading
+    enableSemanticIndex: boolean; // Sends note contents to the embeddings API
+    embeddingModel: string;
+    enableLexicalIndex: boolean; // Offline keyword (BM25) index
+    autoContextSource: 'semantic' | 'lexical'; // Preferred index for auto context
+    enableAutoContext: boolean; // Default of the "Auto Context" toggle for new chats
+    autoContextMaxPassages: number;
+    autoContextTokenBudget: number; // Estimated tokens of all retrieved passages together
+}
+
+// Capabilities of a Gemini model, from the models endpoint or the built-in fallback list
+export interface GeminiModelInfo {
+    id: string; // Without the "models/" prefix
+    name: string;
+    inputTokenLimit?: number;
+    outputTokenLimit?: number;
+    thinking: 'level' | 'budget' | 'none'; // thinkingLevel (Gemini 3), toggleable thinkingBudget (2.5), or no thinking
+    apiVersion: 'v1alpha' | 'v1beta';
+    supportsCaching: boolean; // Explicit caching via cachedContents
+    supportsMediaResolution: boolean; // Per-part media_resolution
+}
+
+export interface GeminiSafetyRating {
+    category: string;
+    probability: string;
+    blocked?: boolean;
+}
+
+export interface GeminiUsageMetadata {
+    promptTokenCount: number; // Includes cachedContentTokenCount
+    candidatesTokenCount: number;
+    totalTokenCount: number;
+    thoughtsTokenCount?: number;
+    cachedContentTokenCount?: number;
+}
+
+// Prices in USD per 1M tokens. Thought tokens are billed as output.
+export interface ModelPrice {
+    input: number;
+    output: number;
+    cachedInput?: number;
+}
+
+// One API call, as recorded in the usage ledger
+export interface UsageEntry {
+    timestamp: number;
+    provider: ProviderId;
+    model: string;
+    chat?: string; // File name of the chat note
+    purpose: 'chat' | 'summary' | 'embedding';
+    promptTokens: number;
+    candidatesTokens: number;
+    thoughtsTokens: number;
+    cachedTokens: number;
+}
+
+/**
+ * A passage found by a retrieval source. `line` is the 0-based line where it starts.
+ */
+export interface RetrievalResult {
+    path: string;
+    heading: string;
+    line: number;
+    text: string;
+    score: number;
+}
+
+/**
+ * Anything that can find vault passages for a query, e.g. the embedding index.
+ */
+export interface RetrievalSource {
+    readonly name: string;
+    isReady(): boolean;
+    search(query: string, limit: number): Promise<RetrievalResult[]>;
+}
+
+// A group of notes added to the context as one chip and expanded when sending
+export interface ContextCollection {
+    kind: 'folder' | 'tag' | 'search';
+    query: string; // Folder path, tag or Obsidian-style search query
+    recursive: boolean; // Folders only: include subfolders
+    limit: number; // Maximum number of notes sent
+    order: 'recent' | 'path';
+}
+
+// A retrieved passage that was sent with a question, shown as a source under the answer
+export interface ContextSource {
+    path: string;
+    heading: string;
+    line: number;
+}
+
+export interface GeminiToolCall {
+    name: string;
+    args: Record<string, any>;
+    response: Record<string, any>;
 }
 
 export interface GeminiChatMessage {
+    id?: string; // Written in the message markers of the chat note
+    parentId?: string | null; // Message this one follows, null for the first message of the chat
     role: 'user' | 'model';
     content: string;
+    timestamp?: string; // ISO time the message was created
     parts?: any[];
     thought?: string; // The text content of the thinking process
     thoughtSignature?: string; // The encrypted signature for context
-    usageMetadata?: { promptTokenCount: number; candidatesTokenCount: number; totalTokenCount: number };
+    usageMetadata?: GeminiUsageMetadata;
     groundingMetadata?: any;
-    images?: string[]; // Resource paths for display
+    images?: string[]; // Vault paths of attached images, shown as thumbnails
+    cachedFile?: string; // Vault path of media sent in an explicit cache instead of the parts
+    toolCalls?: GeminiToolCall[]; // Vault tool steps run before the final answer
+    generationConfig?: GenerationParameters; // Parameters that produced this reply
+    model?: string; // Model that produced this reply
+    finishReason?: string; // Why generation stopped, e.g. STOP, MAX_TOKENS, SAFETY, RECITATION
+    finishMessage?: string; // Extra detail the API gives for some finish reasons
+    blockReason?: string; // Set when the prompt itself was blocked (promptFeedback)
+    safetyRatings?: GeminiSafetyRating[]; // Ratings of the reply, or of the prompt when blocked
+    sources?: ContextSource[]; // Passages added by auto context for the question
 }
@@ -0,0 +1,189 @@
+import { DropdownComponent, ItemView, TFile, WorkspaceLeaf, normalizePath } from "obsidian";
+import type GeminiPlugin from "./main";
+import { VIEW_TYPE_USAGE_DASHBOARD } from "./constants";
+import { UsageEntry } from "./types";
+import { estimateCost } from "./usage-ledger";
+
+interface UsageGroup {
+    key: string;
+    calls: number;
+    inputTokens: number;
+    outputTokens: number;
+    cost: number;
+    unpriced: number; // Calls of models without a known price
+}
+
+const RANGES: { id: string; name: string; days: number | null }[] = [
+    { id: '7', name: 'Last 7 days', days: 7 },
+    { id: '30', name: 'Last 30 days', days: 30 },
+    { id: '90', name: 'Last 90 days', days: 90 },
+    { id: 'all', name: 'All time', days: null }
+];
+
+function formatCost(cost: number): string {
+    return cost < 0.01 && cost > 0 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
+
+function dayKey(timestamp: number): string {
+    const date = new Date(timestamp);
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Shows token usage and estimated spend from the usage ledger, grouped per day,
+ * per model and per chat.
+ */
+export class UsageDashboardView extends ItemView {
+    plugin: GeminiPlugin;
+    range = '30';
+
+    constructor(leaf: WorkspaceLeaf, plugin: GeminiPlugin) {
+        super(leaf);
+        this.plugin = plugin;
+    }
+
+    getViewType() {
+        return VIEW_TYPE_USAGE_DASHBOARD;
+    }
+
+    getDisplayText() {
+        return 'Gemini Usage';
+    }
+
+    getIcon() {
+        return 'bar-chart-2';
+    }
+
+    async onOpen() {
+        this.registerEvent(this.plugin.usageLedger.on('changed', () => this.render()));
+        this.render();
+    }
+
+    render() {
+        const container = this.containerEl.children[1] as HTMLElement;
+        container.empty();
+        container.addClass('gemini-usage-dashboard');
+
+        const header = container.createDiv({ cls: 'gemini-usage-header' });
+        header.createEl('h3', { text: 'Gemini Usage' });
+        const rangeDropdown = new DropdownComponent(header);
+        RANGES.forEach(range => rangeDropdown.addOption(range.id, range.name));
+        rangeDropdown.setValue(this.range).onChange(value => {
+            this.range = value;
+            this.render();
+        });
+
+        const days = RANGES.find(range => range.id === this.range)?.days ?? null;
+        const since = days === null ? 0 : Date.now() - days * 24 * 60 * 60 * 1000;
+        const entries = this.plugin.usageLedger.getEntries().filter(entry => entry.timestamp >= since);
+
+        if (entries.length === 0) {
+            container.createEl('p', { text: 'No usage recorded in this period.', cls: 'gemini-usage-empty' });
+            return;
+        }
+
+        const total = this.group(entries, () => 'total')[0];
+        const summary = container.createDiv({ cls: 'gemini-usage-summary' });
+        this.renderStat(summary, 'Estimated cost', formatCost(total.cost));
+        this.renderStat(summary, 'Calls', total.calls.toLocaleString());
+        this.renderStat(summary, 'Input tokens', total.inputTokens.toLocaleString());
+        this.renderStat(summary, 'Output tokens', total.outputTokens.toLocaleString());
+
+        this.renderTable(container, 'Per day', 'Day', this.group(entries, e => dayKey(e.timestamp)).sort((a, b) => b.key.localeCompare(a.key)));
+        this.renderTable(container, 'Per model', 'Model', this.group(entries, e => e.model).sort((a, b) => b.cost - a.cost));
+        this.renderTable(
+            container,
+            'Per chat',
+            'Chat',
+            this.group(entries, e => e.chat || '').sort((a, b) => b.cost - a.cost),
+            key => this.renderChatLink(key)
+        );
+
+        if (total.unpriced > 0) {
+            container.createEl('p', {
+                cls: 'gemini-usage-footnote',
+                text: `* ${total.unpriced} call(s) used models without a configured price and are not included in the cost. Prices can be set in the plugin settings.`
+            });
+        }
+    }
+
+    private group(entries: UsageEntry[], keyOf: (entry: UsageEntry) => string): UsageGroup[] {
+        const prices = this.plugin.settings.modelPrices;
+        const groups = new Map<string, UsageGroup>();
+        for (const entry of entries) {
+            const key = keyOf(entry);
+            let group = groups.get(key);
+            if (!group) {
+                group = { key, calls: 0, inputTokens: 0, outputTokens: 0, cost: 0, unpriced: 0 };
+                groups.set(key, group);
+            }
+            group.calls++;
+            group.inputTokens += entry.promptTokens;
+            group.outputTokens += entry.candidatesTokens + entry.thoughtsTokens;
+            const cost = estimateCost(entry, prices);
+            if (cost === undefined) {
+                group.unpriced++;
+            } else {
+                group.cost += cost;
+            }
+        }
+        return Array.from(groups.values());
+    }
+
+    private renderStat(container: HTMLElement, label: string, value: string) {
+        const stat = container.createDiv({ cls: 'gemini-usage-stat' });
+        stat.createDiv({ cls: 'gemini-usage-stat-value', text: value });
+        stat.createDiv({ cls: 'gemini-usage-stat-label', text: label });
+    }
+
+    private renderTable(
+        container: HTMLElement,
+        title: string,
+        keyLabel: string,
+        groups: UsageGroup[],
+        renderKey?: (key: string) => DocumentFragment
+    ) {
+        container.createEl('h4', { text: title });
+        const table = container.createEl('table', { cls: 'gemini-usage-table' });
+        const headRow = table.createEl('thead').createEl('tr');
+        [keyLabel, 'Calls', 'Input', 'Output', 'Cost'].forEach(text => headRow.createEl('th', { text }));
+
+        const body = table.createEl('tbody');
+        for (const group of groups) {
+            const row = body.createEl('tr');
+            const keyCell = row.createEl('td');
+            if (renderKey) {
+                keyCell.appendChild(renderKey(group.key));
+            } else {
+                keyCell.setText(group.key);
+            }
+            row.createEl('td', { text: group.calls.toLocaleString() });
+            row.createEl('td', { text: group.inputTokens.toLocaleString() });
+            row.createEl('td', { text: group.outputTokens.toLocaleString() });
+            row.createEl('td', { text: `${formatCost(group.cost)}${group.unpriced > 0 ? ' *' : ''}` });
+        }
+    }
+
+    private renderChatLink(chatName: string): DocumentFragment {
+        return createFragment(frag => {
+            if (!chatName) {
+                frag.createSpan({ text: '(outside a saved chat)', cls: 'gemini-usage-muted' });
+                return;
+            }
+            const path = normalizePath(`${this.plugin.settings.chatHistoryFolder}/${chatName}`);
+            const file = this.app.vault.getAbstractFileByPath(path);
+            const label = chatName.replace(/\.md$/, '');
+            if (!(file instanceof TFile)) {
+                frag.createSpan({ text: `${label} (deleted)`, cls: 'gemini-usage-muted' });
+                return;
+            }
+            const link = frag.createEl('a', { text: label, href: '#' });
+            link.addEventListener('click', (e) => {
+                e.preventDefault();
+                this.plugin.openChat(file);
+            });
+        });
+    }
+}
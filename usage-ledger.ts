@@ -0,0 +1,123 @@
+import { App, Events, debounce, normalizePath } from "obsidian";
+import { DEFAULT_MODEL_PRICES } from "./constants";
+import { GeminiChatMessage, ModelPrice, ProviderId, UsageEntry } from "./types";
+
+const SAVE_DELAY_MS = 2000;
+
+/**
+ * Finds the price of a model: an exact match first, then the longest configured
+ * prefix (so "gemini-2.5-flash-preview-09-2025" uses the "gemini-2.5-flash" price).
+ * Configured prices take precedence over the built-in defaults.
+ */
+export function findModelPrice(model: string, prices: Record<string, ModelPrice>): ModelPrice | undefined {
+    for (const table of [prices, DEFAULT_MODEL_PRICES]) {
+        if (table[model]) {
+            return table[model];
+        }
+        const prefix = Object.keys(table)
+            .filter(key => model.startsWith(key))
+            .sort((a, b) => b.length - a.length)[0];
+        if (prefix) {
+            return table[prefix];
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Estimated cost in USD, or undefined if the model has no known price.
+ */
+export function estimateCost(entry: UsageEntry, prices: Record<string, ModelPrice>): number | undefined {
+    const price = findModelPrice(entry.model, prices);
+    if (!price) {
+        return undefined;
+    }
+    const uncachedInput = Math.max(0, entry.promptTokens - entry.cachedTokens);
+    const cachedInput = entry.cachedTokens;
+    const output = entry.candidatesTokens + entry.thoughtsTokens;
+    return (uncachedInput * price.input + cachedInput * (price.cachedInput ?? price.input) + output * price.output) / 1_000_000;
+}
+
+/**
+ * Log of every model call's token usage, kept as JSON in the plugin folder so it
+ * covers all chats, including deleted ones. Triggers "changed" after each record.
+ */
+export class UsageLedger extends Events {
+    app: App;
+    private path: string;
+    private entries: UsageEntry[] = [];
+    private loaded = false;
+
+    constructor(app: App, pluginDir: string) {
+        super();
+        this.app = app;
+        this.path = normalizePath(`${pluginDir}/usage-ledger.json`);
+    }
+
+    async load(): Promise<void> {
+        try {
+            if (await this.app.vault.adapter.exists(this.path)) {
+                const data = JSON.parse(await this.app.vault.adapter.read(this.path));
+                this.entries = Array.isArray(data.entries) ? data.entries : [];
+            }
+        } catch (error) {
+            console.error('Gemini: Failed to read the usage ledger:', error);
+        }
+        this.loaded = true;
+    }
+
+    getEntries(): UsageEntry[] {
+        return this.entries;
+    }
+
+    /**
+     * Records the usage of a reply. Messages without usage data are ignored.
+     */
+    record(msg: GeminiChatMessage, details: { provider: ProviderId; model: string; chat?: string | null; purpose?: UsageEntry['purpose'] }) {
+        const usage = msg.usageMetadata;
+        if (!usage) return;
+
+        this.entries.push({
+            timestamp: Date.now(),
+            provider: details.provider,
+            model: details.model,
+            chat: details.chat || undefined,
+            purpose: details.purpose || 'chat',
+            promptTokens: usage.promptTokenCount || 0,
+            candidatesTokens: usage.candidatesTokenCount || 0,
+            thoughtsTokens: usage.thoughtsTokenCount || 0,
+            cachedTokens: usage.cachedContentTokenCount || 0
+        });
+        this.trigger('changed');
+        this.requestSave();
+    }
+
+    /**
+     * Keeps entries pointing at a chat note after it is renamed. Entries of deleted
+     * chats are kept, so spend stays visible.
+     */
+    renameChat(oldName: string, newName: string) {
+        let changed = false;
+        for (const entry of this.entries) {
+            if (entry.chat === oldName) {
+                entry.chat = newName;
+                changed = true;
+            }
+        }
+        if (changed) {
+            this.trigger('changed');
+            this.requestSave();
+        }
+    }
+
+    private requestSave = debounce(() => this.save(), SAVE_DELAY_MS, true);
+
+    async save(): Promise<void> {
+        if (!this.loaded) return;
+        try {
+            await this.app.vault.adapter.write(this.path, JSON.stringify({ version: 1, entries: this.entries }));
+        } catch (error) {
+            console.error('Gemini: Failed to save the usage ledger:', error);
+        }
+    }
+}
@@ -0,0 +1,187 @@
+import { App, TFile, TFolder, normalizePath, prepareSimpleSearch } from "obsidian";
+import { NoteService } from "./note-service";
+
+const MAX_SEARCH_RESULTS = 20;
+const MAX_NOTE_CHARS = 100000;
+const SNIPPET_RADIUS = 120;
+
+/**
+ * Function declarations exposed to Gemini when vault tools are enabled.
+ * Shared with GeminiFileManager, since explicit caches must declare the same tools.
+ */
+export const VAULT_TOOL_DECLARATIONS = [
+    {
+        name: "search_notes",
+        description: "Search the user's Obsidian vault for notes whose title or content contains all words of the query. Returns note paths with a short snippet around the first match.",
+        parameters: {
+            type: "object",
+            properties: {
+                query: { type: "string", description: "Words to search for." },
+                limit: { type: "integer", description: `Maximum number of results (default and max ${MAX_SEARCH_RESULTS}).` }
+            },
+            required: ["query"]
+        }
+    },
+    {
+        name: "read_note",
+        description: "Read the full text of a note in the vault. Accepts a vault path, a note name or a [[wikilink]].",
+        parameters: {
+            type: "object",
+            properties: {
+                path: { type: "string", description: "Path or name of the note to read." }
+            },
+            required: ["path"]
+        }
+    },
+    {
+        name: "list_folder",
+        description: "List the subfolders and files of a folder in the vault. Use an empty path or \"/\" for the vault root.",
+        parameters: {
+            type: "object",
+            properties: {
+                path: { type: "string", description: "Folder path relative to the vault root." }
+            },
+            required: ["path"]
+        }
+    },
+    {
+        name: "get_backlinks",
+        description: "List the notes that link to the given note.",
+        parameters: {
+            type: "object",
+            properties: {
+                path: { type: "string", description: "Path or name of the note." }
+            },
+            required: ["path"]
+        }
+    }
+];
+
+export class VaultTools {
+    app: App;
+    noteService: NoteService;
+
+    constructor(app: App, noteService: NoteService) {
+        this.app = app;
+        this.noteService = noteService;
+    }
+
+    /**
+     * Runs a tool requested by the model. The result is always an object,
+     * as required for the `response` field of a functionResponse part.
+     */
+    async execute(name: string, args: Record<string, any>): Promise<Record<string, any>> {
+        switch (name) {
+            case "search_notes":
+                return this.searchNotes(String(args.query ?? ""), Number(args.limit) || MAX_SEARCH_RESULTS);
+            case "read_note":
+                return this.readNote(String(args.path ?? ""));
+            case "list_folder":
+                return this.listFolder(String(args.path ?? ""));
+            case "get_backlinks":
+                return this.getBacklinks(String(args.path ?? ""));
+            default:
+                return { error: `Unknown tool: ${name}` };
+        }
+    }
+
+    private async searchNotes(query: string, limit: number): Promise<Record<string, any>> {
+        if (!query.trim()) {
+            return { error: "Query is empty." };
+        }
+
+        const search = prepareSimpleSearch(query);
+        const maxResults = Math.min(Math.max(1, limit), MAX_SEARCH_RESULTS);
+        const results: { path: string; score: number; snippet: string }[] = [];
+
+        for (const file of this.app.vault.getMarkdownFiles()) {
+            const titleMatch = search(file.path);
+            const content = await this.noteService.readNoteText(file);
+            const contentMatch = search(content);
+            if (!titleMatch && !contentMatch) continue;
+
+            let snippet = "";
+            if (contentMatch && contentMatch.matches.length > 0) {
+                const [start, end] = contentMatch.matches[0];
+                const from = Math.max(0, start - SNIPPET_RADIUS);
+                const to = Math.min(content.length, end + SNIPPET_RADIUS);
+                snippet = content.slice(from, to).replace(/\s+/g, " ").trim();
+            }
+
+            results.push({
+                path: file.path,
+                // Title matches rank above content-only matches, then by number of hits
+                score: (titleMatch ? 1000 : 0) + (contentMatch ? contentMatch.matches.length : 0),
+                snippet
+            });
+        }
+
+        results.sort((a, b) => b.score - a.score);
+        return {
+            totalMatches: results.length,
+            results: results.slice(0, maxResults).map(({ path, snippet }) => ({ path, snippet }))
+        };
+    }
+
+    private async readNote(path: string): Promise<Record<string, any>> {
+        const resolution = await this.noteService.resolveNoteFile(path);
+        if (resolution.type === "not_unique") {
+            return {
+                error: `"${path}" matches several notes. Call read_note again with one of the listed paths.`,
+                matches: resolution.matches.map((f) => f.path)
+            };
+        }
+        if (resolution.type === "not_found") {
+            return { error: `Note not found: ${path}` };
+        }
+
+        const content = await this.noteService.readNoteText(resolution.file);
+        const truncated = content.length > MAX_NOTE_CHARS;
+        return {
+            path: resolution.file.path,
+            content: truncated ? content.slice(0, MAX_NOTE_CHARS) : content,
+            truncated
+        };
+    }
+
+    private listFolder(path: string): Record<string, any> {
+        const trimmed = path.trim().replace(/^\/+|\/+$/g, "");
+        const folder = trimmed ? this.app.vault.getAbstractFileByPath(normalizePath(trimmed)) : this.app.vault.getRoot();
+
+        if (!(folder instanceof TFolder)) {
+            return { error: `Folder not found: ${path}` };
+        }
+
+        return {
+            path: folder.path,
+            folders: folder.children.filter((f): f is TFolder => f instanceof TFolder).map((f) => f.path),
+            files: folder.children.filter((f): f is TFile => f instanceof TFile).map((f) => f.path)
+        };
+    }
+
+    private async getBacklinks(path: string): Promise<Record<string, any>> {
+        const resolution = await this.noteService.resolveNoteFile(path);
+        if (resolution.type === "not_unique") {
+            return {
+                error: `"${path}" matches several notes. Call get_backlinks again with one of the listed paths.`,
+                matches: resolution.matches.map((f) => f.path)
+            };
+        }
+        if (resolution.type === "not_found") {
+            return { error: `Note not found: ${path}` };
+        }
+
+        const targetPath = resolution.file.path;
+        const backlinks: { path: string; count: number }[] = [];
+        const resolvedLinks = this.app.metadataCache.resolvedLinks;
+        for (const sourcePath in resolvedLinks) {
+            const count = resolvedLinks[sourcePath][targetPath];
+            if (count && sourcePath !== targetPath) {
+                backlinks.push({ path: sourcePath, count });
+            }
+        }
+
+        backlinks.sort((a, b) => b.count - a.count);
+        return { path: targetPath, backlinks };
+    }
+}